@@ -0,0 +1,246 @@
+// Counts change detection cycles with zone.js and without it, by running the
+// dev-only benchmark (src/app/core/perf/change-detection-benchmark.ts) in
+// two builds: this tree, and the last commit that still used zone.js with
+// the benchmark copied in. Prints a Markdown table of the median counts.
+//
+// Usage: CHROME_PATH=/path/to/chrome node scripts/cd-benchmark.mjs [runs]
+// Extra browser flags (e.g. --no-sandbox when running as root) can be given
+// in CHROME_ARGS, separated by spaces.
+
+import { execFileSync } from "node:child_process";
+import {
+  copyFileSync,
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs";
+import { readFile } from "node:fs/promises";
+import { createServer } from "node:http";
+import { tmpdir } from "node:os";
+import { dirname, extname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import puppeteer from "puppeteer-core";
+
+const ROOT = join(dirname(fileURLToPath(import.meta.url)), "..");
+const BENCHMARK = "src/app/core/perf/change-detection-benchmark.ts";
+const PORT = 4321;
+const RUNS = Number(process.argv[2] ?? 5);
+const TIMEOUT_MS = 180000;
+
+let browserVersion = "";
+
+if (!process.env.CHROME_PATH) {
+  console.error("Set CHROME_PATH to a Chrome or Chromium executable.");
+  process.exit(1);
+}
+
+const work = mkdtempSync(join(tmpdir(), "cd-benchmark-"));
+const zoneTree = join(work, "zone");
+try {
+  const zoneCommit = lastZoneCommit();
+  console.error(`zone.js build: ${zoneCommit}`);
+  execFileSync("git", ["worktree", "add", "--detach", zoneTree, zoneCommit], {
+    cwd: ROOT,
+    stdio: "inherit",
+  });
+  addBenchmark(zoneTree);
+  // Its own dependencies, as zone.js is no longer installed here. The peer
+  // ranges of @rx-angular/cdk predate Angular 20.
+  execFileSync(
+    "npm",
+    ["install", "--no-audit", "--no-fund", "--legacy-peer-deps"],
+    { cwd: zoneTree, stdio: "inherit" },
+  );
+  build(zoneTree, join(work, "zone-dist"));
+  build(ROOT, join(work, "zoneless-dist"));
+
+  const zone = await measure(join(work, "zone-dist", "browser"));
+  const zoneless = await measure(join(work, "zoneless-dist", "browser"));
+  printTable(zone, zoneless);
+} finally {
+  execFileSync("git", ["worktree", "remove", "--force", zoneTree], {
+    cwd: ROOT,
+    stdio: "ignore",
+  });
+  rmSync(work, { recursive: true, force: true });
+}
+
+// The parent of the commit that took zone.js out of the build polyfills
+function lastZoneCommit() {
+  const removed = execFileSync(
+    "git",
+    [
+      "log",
+      "-1",
+      "--format=%H",
+      '-S"polyfills": ["zone.js"]',
+      "--",
+      "angular.json",
+    ],
+    { cwd: ROOT, encoding: "utf8" },
+  ).trim();
+  return execFileSync("git", ["rev-parse", "--short", `${removed}^`], {
+    cwd: ROOT,
+    encoding: "utf8",
+  }).trim();
+}
+
+function addBenchmark(tree) {
+  mkdirSync(dirname(join(tree, BENCHMARK)), { recursive: true });
+  copyFileSync(join(ROOT, BENCHMARK), join(tree, BENCHMARK));
+  const configPath = join(tree, "src/app/app.config.ts");
+  const config = readFileSync(configPath, "utf8");
+  writeFileSync(
+    configPath,
+    'import { provideChangeDetectionBenchmark } from "./core/perf/change-detection-benchmark";\n' +
+      config.replace(
+        "providers: [",
+        "providers: [\n    provideChangeDetectionBenchmark(),",
+      ),
+  );
+}
+
+function build(tree, outputPath) {
+  execFileSync(
+    "npx",
+    [
+      "ng",
+      "build",
+      "--configuration",
+      "development",
+      "--output-path",
+      outputPath,
+    ],
+    {
+      cwd: tree,
+      stdio: "inherit",
+    },
+  );
+}
+
+// Runs the benchmark RUNS times, each in a fresh browser profile
+async function measure(dir) {
+  const server = serve(dir);
+  const results = [];
+  try {
+    for (let i = 0; i < RUNS; i++) {
+      const browser = await puppeteer.launch({
+        executablePath: process.env.CHROME_PATH,
+        args: (process.env.CHROME_ARGS ?? "").split(" ").filter(Boolean),
+        headless: "shell",
+      });
+      try {
+        const [page] = await browser.pages();
+        await page.setViewport({ width: 1280, height: 800 });
+        // Enough articles for a second page of the feed
+        await page.evaluateOnNewDocument((db) => {
+          if (!localStorage.getItem("fakeBackendDb")) {
+            localStorage.setItem("fakeBackendDb", db);
+          }
+        }, JSON.stringify(seed()));
+        // Web fonts and other hosts are left out, as they vary between runs
+        await page.setRequestInterception(true);
+        page.on("request", (request) =>
+          request.url().startsWith(`http://localhost:${PORT}/`)
+            ? request.continue()
+            : request.abort(),
+        );
+        await page.goto(`http://localhost:${PORT}/?cdBenchmark`);
+        await page.waitForFunction(() => document.body.dataset.cdBenchmark, {
+          timeout: TIMEOUT_MS,
+        });
+        const result = JSON.parse(
+          await page.evaluate(() => document.body.dataset.cdBenchmark),
+        );
+        browserVersion = await browser.version();
+        console.error(browserVersion, JSON.stringify(result));
+        results.push(result);
+      } finally {
+        await browser.close();
+      }
+    }
+  } finally {
+    server.close();
+  }
+  return results;
+}
+
+// Serves a build with the offline API environment and an SPA fallback
+function serve(dir) {
+  const types = {
+    ".js": "text/javascript",
+    ".css": "text/css",
+    ".html": "text/html",
+    ".json": "application/json",
+  };
+  return createServer(async (req, res) => {
+    const path = new URL(req.url, "http://localhost").pathname;
+    if (path === "/config.json") {
+      const config = JSON.parse(
+        await readFile(join(dir, "config.json"), "utf8"),
+      );
+      res.writeHead(200, { "content-type": types[".json"] });
+      res.end(JSON.stringify({ ...config, environment: "offline" }));
+      return;
+    }
+    try {
+      const body = await readFile(join(dir, path));
+      res.writeHead(200, {
+        "content-type": types[extname(path)] ?? "application/octet-stream",
+      });
+      res.end(body);
+    } catch {
+      res.writeHead(200, { "content-type": types[".html"] });
+      res.end(await readFile(join(dir, "index.html")));
+    }
+  }).listen(PORT);
+}
+
+// 3 users and 25 articles; the built-in seed has too few for a second page
+function seed() {
+  const tags = ["angular", "signals", "testing"];
+  const users = [1, 2, 3].map((id) => ({
+    id,
+    email: `user${id}@example.com`,
+    username: `user${id}`,
+    password: "password",
+    bio: "",
+    image: "",
+    following: [],
+  }));
+  const articles = Array.from({ length: 25 }, (_, i) => {
+    const date = new Date(Date.UTC(2025, 0, 1 + i)).toISOString();
+    return {
+      slug: `article-${i + 1}`,
+      title: `Article ${i + 1}`,
+      description: `About article ${i + 1}`,
+      body: `# Article ${i + 1}\n\nSome text.`,
+      tagList: [tags[i % tags.length]],
+      createdAt: date,
+      updatedAt: date,
+      authorId: (i % users.length) + 1,
+      favoritedBy: [],
+    };
+  });
+  return { users, articles, comments: [], nextId: 100 };
+}
+
+function printTable(zone, zoneless) {
+  const median = (results, step) => {
+    const counts = results.map((result) => result[step]);
+    if (!counts.every((count) => typeof count === "number")) {
+      return counts.find((count) => typeof count !== "number");
+    }
+    return [...counts].sort((a, b) => a - b)[Math.floor(counts.length / 2)];
+  };
+  console.log(`Median of ${RUNS} runs in ${browserVersion}\n`);
+  console.log("| Step | zone.js | zoneless |");
+  console.log("| --- | --: | --: |");
+  for (const step of Object.keys(zoneless[0])) {
+    console.log(
+      `| ${step} | ${median(zone, step)} | ${median(zoneless, step)} |`,
+    );
+  }
+}
@@ -1,11 +1,20 @@
-import { Component } from "@angular/core";
+import { ChangeDetectionStrategy, Component } from "@angular/core";
 import { HeaderComponent } from "./core/layout/header.component";
 import { RouterOutlet } from "@angular/router";
 import { FooterComponent } from "./core/layout/footer.component";
+import { NotificationOutletComponent } from "./core/notifications/notification-outlet.component";
+import { CrashOverlayComponent } from "./core/errors/crash-overlay.component";
 
 @Component({
   selector: "app-root",
   templateUrl: "./app.component.html",
-  imports: [HeaderComponent, RouterOutlet, FooterComponent],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  imports: [
+    HeaderComponent,
+    RouterOutlet,
+    FooterComponent,
+    NotificationOutletComponent,
+    CrashOverlayComponent,
+  ],
 })
 export class AppComponent {}
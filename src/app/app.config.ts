@@ -1,32 +1,76 @@
 import {
   ApplicationConfig,
+  ErrorHandler,
   inject,
   provideAppInitializer,
+  provideBrowserGlobalErrorListeners,
+  provideZonelessChangeDetection,
 } from "@angular/core";
-import { provideRouter } from "@angular/router";
+import { provideRouter, withPreloading } from "@angular/router";
 
 import { routes } from "./app.routes";
 import { provideHttpClient, withInterceptors } from "@angular/common/http";
 import { JwtService } from "./core/auth/services/jwt.service";
 import { UserService } from "./core/auth/services/user.service";
+import { SessionExpiryService } from "./core/auth/services/session-expiry.service";
+import { cacheInterceptor } from "./core/interceptors/cache.interceptor";
+import { validationInterceptor } from "./core/interceptors/validation.interceptor";
+import { offlineQueueInterceptor } from "./core/interceptors/offline-queue.interceptor";
+import { retryInterceptor } from "./core/interceptors/retry.interceptor";
 import { apiInterceptor } from "./core/interceptors/api.interceptor";
 import { tokenInterceptor } from "./core/interceptors/token.interceptor";
 import { errorInterceptor } from "./core/interceptors/error.interceptor";
+import { fakeBackendInterceptor } from "./core/fake-backend/fake-backend.interceptor";
+import { API_CONFIG, DEFAULT_API_CONFIG } from "./core/config/api-config";
+import { ApiConfigService } from "./core/config/services/api-config.service";
+import { PrefetchPreloadingStrategy } from "./core/prefetch/prefetch-preloading.strategy";
+import { devProviders } from "../environments/dev-providers";
+import { AppErrorHandler } from "./core/errors/app-error-handler";
+import { ErrorReportService } from "./core/errors/error-report.service";
 import { EMPTY } from "rxjs";
+import { catchError, switchMap } from "rxjs/operators";
+
+// Registers the in-memory fake backend. It then serves the API environments
+// with "fakeBackend": true in config.json, such as "offline".
+const FAKE_BACKEND = true;
 
 export function initAuth(jwtService: JwtService, userService: UserService) {
-  return () => (jwtService.getToken() ? userService.getCurrentUser() : EMPTY);
+  // A stale token must not keep the app from starting, it just signs out
+  return () =>
+    jwtService.getToken()
+      ? userService.getCurrentUser().pipe(catchError(() => EMPTY))
+      : EMPTY;
 }
 
 export const appConfig: ApplicationConfig = {
   providers: [
-    provideRouter(routes),
+    provideZonelessChangeDetection(),
+    // Uncaught errors and rejections outside Angular reach the handler too
+    provideBrowserGlobalErrorListeners(),
+    { provide: ErrorHandler, useClass: AppErrorHandler },
+    provideRouter(routes, withPreloading(PrefetchPreloadingStrategy)),
     provideHttpClient(
-      withInterceptors([apiInterceptor, tokenInterceptor, errorInterceptor]),
+      withInterceptors([
+        cacheInterceptor,
+        // Inside the cache, so only repaired responses are stored
+        validationInterceptor,
+        offlineQueueInterceptor,
+        apiInterceptor,
+        tokenInterceptor,
+        errorInterceptor,
+        retryInterceptor,
+        ...(FAKE_BACKEND ? [fakeBackendInterceptor] : []),
+      ]),
     ),
+    { provide: API_CONFIG, useValue: DEFAULT_API_CONFIG },
     provideAppInitializer(() => {
       const initializerFn = initAuth(inject(JwtService), inject(UserService));
-      return initializerFn();
+      return inject(ApiConfigService)
+        .load()
+        .pipe(switchMap(() => initializerFn()));
     }),
+    provideAppInitializer(() => inject(SessionExpiryService).start()),
+    provideAppInitializer(() => inject(ErrorReportService).start()),
+    ...devProviders,
   ],
 };
@@ -1,7 +1,7 @@
 import { Routes } from "@angular/router";
-import { inject } from "@angular/core";
-import { UserService } from "./core/auth/services/user.service";
-import { map } from "rxjs/operators";
+import { requireAuth, requireGuest } from "./core/auth/auth.guards";
+import { articleResolver } from "./features/article/article.resolver";
+import { canEditArticle } from "./features/article/article.guards";
 
 export const routes: Routes = [
   {
@@ -11,25 +11,22 @@ export const routes: Routes = [
   {
     path: "login",
     loadComponent: () => import("./core/auth/auth.component"),
-    canActivate: [
-      () => inject(UserService).isAuthenticated.pipe(map((isAuth) => !isAuth)),
-    ],
+    canActivate: [requireGuest],
   },
   {
     path: "register",
     loadComponent: () => import("./core/auth/auth.component"),
-    canActivate: [
-      () => inject(UserService).isAuthenticated.pipe(map((isAuth) => !isAuth)),
-    ],
+    canActivate: [requireGuest],
   },
   {
     path: "settings",
     loadComponent: () => import("./features/settings/settings.component"),
-    canActivate: [() => inject(UserService).isAuthenticated],
+    canActivate: [requireAuth],
   },
   {
     path: "profile",
     loadChildren: () => import("./features/profile/profile.routes"),
+    data: { prefetch: "profile" },
   },
   {
     path: "editor",
@@ -38,19 +35,44 @@ export const routes: Routes = [
         path: "",
         loadComponent: () =>
           import("./features/article/pages/editor/editor.component"),
-        canActivate: [() => inject(UserService).isAuthenticated],
+        canActivate: [requireAuth],
       },
       {
         path: ":slug",
         loadComponent: () =>
           import("./features/article/pages/editor/editor.component"),
-        canActivate: [() => inject(UserService).isAuthenticated],
+        canActivate: [requireAuth, canEditArticle],
       },
     ],
   },
+  {
+    path: "drafts",
+    loadComponent: () =>
+      import("./features/article/pages/drafts/drafts.component"),
+    canActivate: [requireAuth],
+  },
+  {
+    path: "search",
+    loadComponent: () =>
+      import("./features/article/pages/search/search.component"),
+  },
   {
     path: "article/:slug",
     loadComponent: () =>
       import("./features/article/pages/article/article.component"),
+    resolve: { article: articleResolver },
+    data: { prefetch: "article" },
+  },
+  {
+    path: "not-found",
+    loadComponent: () => import("./core/errors/not-found.component"),
+  },
+  {
+    path: "error",
+    loadComponent: () => import("./core/errors/error-page.component"),
+  },
+  {
+    path: "**",
+    loadComponent: () => import("./core/errors/not-found.component"),
   },
 ];
@@ -1,4 +1,11 @@
-import { Component, DestroyRef, inject, OnInit } from "@angular/core";
+import {
+  ChangeDetectionStrategy,
+  Component,
+  DestroyRef,
+  inject,
+  OnInit,
+  signal,
+} from "@angular/core";
 import {
   Validators,
   FormGroup,
@@ -10,23 +17,26 @@ import { ListErrorsComponent } from "../../shared/components/list-errors.compone
 import { Errors } from "../models/errors.model";
 import { UserService } from "./services/user.service";
 import { takeUntilDestroyed } from "@angular/core/rxjs-interop";
+import { safeReturnUrl } from "./auth.guards";
 
 interface AuthForm {
   email: FormControl<string>;
   password: FormControl<string>;
+  remember: FormControl<boolean>;
   username?: FormControl<string>;
 }
 
 @Component({
   selector: "app-auth-page",
   templateUrl: "./auth.component.html",
+  changeDetection: ChangeDetectionStrategy.OnPush,
   imports: [RouterLink, ListErrorsComponent, ReactiveFormsModule],
 })
 export default class AuthComponent implements OnInit {
   authType = "";
   title = "";
-  errors: Errors = { errors: {} };
-  isSubmitting = false;
+  errors = signal<Errors>({ errors: {} });
+  isSubmitting = signal(false);
   authForm: FormGroup<AuthForm>;
   destroyRef = inject(DestroyRef);
 
@@ -44,6 +54,8 @@ export default class AuthComponent implements OnInit {
         validators: [Validators.required],
         nonNullable: true,
       }),
+      // On by default, so other tabs follow sign-ins and sign-outs
+      remember: new FormControl(true, { nonNullable: true }),
     });
   }
 
@@ -62,27 +74,30 @@ export default class AuthComponent implements OnInit {
   }
 
   submitForm(): void {
-    this.isSubmitting = true;
-    this.errors = { errors: {} };
+    this.isSubmitting.set(true);
+    this.errors.set({ errors: {} });
 
+    const { remember, ...credentials } = this.authForm.getRawValue();
     let observable =
       this.authType === "login"
-        ? this.userService.login(
-            this.authForm.value as { email: string; password: string },
-          )
+        ? this.userService.login(credentials, remember)
         : this.userService.register(
-            this.authForm.value as {
+            credentials as {
               email: string;
               password: string;
               username: string;
             },
+            remember,
           );
 
     observable.pipe(takeUntilDestroyed(this.destroyRef)).subscribe({
-      next: () => void this.router.navigate(["/"]),
+      next: () =>
+        void this.router.navigateByUrl(
+          safeReturnUrl(this.route.snapshot.queryParamMap.get("returnUrl")),
+        ),
       error: (err) => {
-        this.errors = err;
-        this.isSubmitting = false;
+        this.errors.set(err);
+        this.isSubmitting.set(false);
       },
     });
   }
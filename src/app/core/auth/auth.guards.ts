@@ -0,0 +1,37 @@
+import { inject } from "@angular/core";
+import { CanActivateFn, Router, UrlTree } from "@angular/router";
+import { map, take } from "rxjs/operators";
+import { UserService } from "./services/user.service";
+
+// Signed-in users only; others are sent to the login page and brought back
+export const requireAuth: CanActivateFn = (route, state) => {
+  const router = inject(Router);
+  return inject(UserService).isAuthenticated$.pipe(
+    take(1),
+    map((isAuth) => isAuth || loginUrlTree(router, state.url)),
+  );
+};
+
+// Login and register pages; signed-in users continue to where they were going
+export const requireGuest: CanActivateFn = (route) => {
+  const router = inject(Router);
+  return inject(UserService).isAuthenticated$.pipe(
+    take(1),
+    map(
+      (isAuth) =>
+        !isAuth ||
+        router.parseUrl(safeReturnUrl(route.queryParamMap.get("returnUrl"))),
+    ),
+  );
+};
+
+export function loginUrlTree(router: Router, returnUrl: string): UrlTree {
+  return router.createUrlTree(["/login"], {
+    queryParams: returnUrl && returnUrl !== "/" ? { returnUrl } : {},
+  });
+}
+
+// Only same-app paths, so a crafted link cannot redirect off-site after login
+export function safeReturnUrl(returnUrl: string | null): string {
+  return returnUrl && /^\/(?![/\\])/.test(returnUrl) ? returnUrl : "/";
+}
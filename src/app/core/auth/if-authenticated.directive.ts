@@ -1,48 +1,36 @@
 import {
-  DestroyRef,
   Directive,
-  inject,
-  Input,
-  OnInit,
+  effect,
+  input,
   TemplateRef,
   ViewContainerRef,
 } from "@angular/core";
 import { UserService } from "./services/user.service";
-import { takeUntilDestroyed } from "@angular/core/rxjs-interop";
 
 @Directive({
   selector: "[ifAuthenticated]",
   standalone: true,
 })
-export class IfAuthenticatedDirective<T> implements OnInit {
-  destroyRef = inject(DestroyRef);
+export class IfAuthenticatedDirective<T> {
+  ifAuthenticated = input(false);
+  hasView = false;
+
   constructor(
     private templateRef: TemplateRef<T>,
     private userService: UserService,
     private viewContainer: ViewContainerRef,
-  ) {}
-
-  condition: boolean = false;
-  hasView = false;
-
-  ngOnInit() {
-    this.userService.isAuthenticated
-      .pipe(takeUntilDestroyed(this.destroyRef))
-      .subscribe((isAuthenticated: boolean) => {
-        const authRequired = isAuthenticated && this.condition;
-        const unauthRequired = !isAuthenticated && !this.condition;
-
-        if ((authRequired || unauthRequired) && !this.hasView) {
-          this.viewContainer.createEmbeddedView(this.templateRef);
-          this.hasView = true;
-        } else if (this.hasView) {
-          this.viewContainer.clear();
-          this.hasView = false;
-        }
-      });
-  }
+  ) {
+    effect(() => {
+      const shown =
+        this.userService.isAuthenticated() === this.ifAuthenticated();
 
-  @Input() set ifAuthenticated(condition: boolean) {
-    this.condition = condition;
+      if (shown && !this.hasView) {
+        this.viewContainer.createEmbeddedView(this.templateRef);
+        this.hasView = true;
+      } else if (!shown && this.hasView) {
+        this.viewContainer.clear();
+        this.hasView = false;
+      }
+    });
   }
 }
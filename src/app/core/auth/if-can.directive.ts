@@ -0,0 +1,51 @@
+import {
+  Directive,
+  effect,
+  input,
+  TemplateRef,
+  ViewContainerRef,
+} from "@angular/core";
+import {
+  Ability,
+  AbilitySubjects,
+  PermissionService,
+} from "./services/permission.service";
+
+// Usage: *ifCan="'edit-article'; subject: article; else readerActions"
+// The subject is type-checked against the ability it is given with.
+@Directive({
+  selector: "[ifCan]",
+  standalone: true,
+})
+export class IfCanDirective<A extends Ability> {
+  ifCan = input.required<A>();
+  ifCanSubject = input<AbilitySubjects[A] | null>(null);
+  ifCanElse = input<TemplateRef<unknown> | null>(null);
+
+  private shown: TemplateRef<unknown> | null = null;
+
+  constructor(
+    private templateRef: TemplateRef<unknown>,
+    private permissions: PermissionService,
+    private viewContainer: ViewContainerRef,
+  ) {
+    // Runs again when the ability, the subject or the user changes
+    effect(() => {
+      const subject = this.ifCanSubject();
+      const allowed =
+        !!subject && this.permissions.allows(this.ifCan(), subject);
+      this.show(allowed ? this.templateRef : this.ifCanElse());
+    });
+  }
+
+  private show(template: TemplateRef<unknown> | null) {
+    if (template === this.shown) {
+      return;
+    }
+    this.viewContainer.clear();
+    if (template) {
+      this.viewContainer.createEmbeddedView(template);
+    }
+    this.shown = template;
+  }
+}
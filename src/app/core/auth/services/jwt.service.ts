@@ -1,16 +1,95 @@
 import { Injectable } from "@angular/core";
+import { fromEvent, Observable } from "rxjs";
+import { filter, map } from "rxjs/operators";
+import {
+  LocalTokenStorage,
+  MemoryTokenStorage,
+  SessionTokenStorage,
+  TokenPersistence,
+  TokenStorage,
+} from "../token-storage";
+
+const TOKEN_KEY = "jwtToken";
+
+export interface JwtPayload {
+  exp?: number;
+  iat?: number;
+  [claim: string]: unknown;
+}
 
 @Injectable({ providedIn: "root" })
 export class JwtService {
-  getToken(): string {
-    return window.localStorage["jwtToken"];
+  private readonly storages: TokenStorage[] = [
+    new LocalTokenStorage(TOKEN_KEY),
+    new SessionTokenStorage(TOKEN_KEY),
+    new MemoryTokenStorage(),
+  ];
+  // Picked up from wherever the last session left its token
+  private storage =
+    this.storages.find((storage) => storage.get()) ?? this.available("local");
+
+  // The token as changed by another tab (storage events do not fire in the
+  // tab that made the change); null once it has been removed
+  readonly tokenChanges: Observable<string | null> = fromEvent<StorageEvent>(
+    window,
+    "storage",
+  ).pipe(
+    // Only localStorage is shared between tabs; a null key means it was cleared
+    filter(
+      (event) =>
+        event.storageArea === window.localStorage &&
+        (event.key === TOKEN_KEY || event.key === null),
+    ),
+    map(() => this.getToken()),
+  );
+
+  get persistence(): TokenPersistence {
+    return this.storage.persistence;
+  }
+
+  getToken(): string | null {
+    return this.storage.get();
   }
 
-  saveToken(token: string): void {
-    window.localStorage["jwtToken"] = token;
+  // Switches storage when a persistence is given, e.g. on login
+  saveToken(token: string, persistence?: TokenPersistence): void {
+    if (persistence && persistence !== this.storage.persistence) {
+      this.destroyToken();
+      this.storage = this.available(persistence);
+    }
+    this.storage.set(token);
   }
 
   destroyToken(): void {
-    window.localStorage.removeItem("jwtToken");
+    this.storages.forEach((storage) => storage.remove());
+  }
+
+  // Reads the claims without verifying the signature, which only the API can
+  decodeToken(token = this.getToken()): JwtPayload | null {
+    if (!token) {
+      return null;
+    }
+    try {
+      const payload = token.split(".")[1].replace(/-/g, "+").replace(/_/g, "/");
+      const bytes = Uint8Array.from(atob(payload), (c) => c.charCodeAt(0));
+      const claims = JSON.parse(new TextDecoder().decode(bytes));
+      return typeof claims === "object" && claims !== null ? claims : null;
+    } catch {
+      return null;
+    }
+  }
+
+  getExpirationDate(token = this.getToken()): Date | null {
+    const exp = this.decodeToken(token)?.exp;
+    return typeof exp === "number" ? new Date(exp * 1000) : null;
+  }
+
+  private available(persistence: TokenPersistence): TokenStorage {
+    const storage = this.storages.find(
+      (candidate) => candidate.persistence === persistence,
+    )!;
+    return storage.isAvailable()
+      ? storage
+      : this.storages.find((candidate) => candidate.persistence === "memory")!;
   }
 }
@@ -0,0 +1,58 @@
+import { Injectable } from "@angular/core";
+import { Observable } from "rxjs";
+import { distinctUntilChanged, map } from "rxjs/operators";
+import { UserService } from "./user.service";
+import { User } from "../user.model";
+import { Article } from "../../../features/article/models/article.model";
+import { Comment } from "../../../features/article/models/comment.model";
+import { Profile } from "../../../features/profile/models/profile.model";
+
+// What each ability is checked against
+export interface AbilitySubjects {
+  // Editing and deleting
+  "edit-article": Article;
+  "delete-comment": Comment;
+  "edit-profile": Profile;
+  follow: Profile;
+  favorite: Article;
+}
+
+export type Ability = keyof AbilitySubjects;
+
+type Rules = {
+  [A in Ability]: (user: User | null, subject: AbilitySubjects[A]) => boolean;
+};
+
+const RULES: Rules = {
+  "edit-article": (user, article) => isSelf(user, article.author),
+  "delete-comment": (user, comment) => isSelf(user, comment.author),
+  "edit-profile": (user, profile) => isSelf(user, profile),
+  // Guests may try, they are asked to sign up first
+  follow: (user, profile) => !isSelf(user, profile),
+  favorite: () => true,
+};
+
+function isSelf(user: User | null, profile: Pick<Profile, "username">) {
+  return !!user && user.username === profile.username;
+}
+
+@Injectable({ providedIn: "root" })
+export class PermissionService {
+  constructor(private readonly userService: UserService) {}
+
+  // Reads the currentUser signal, so computed() and effect() follow sign-ins
+  allows<A extends Ability>(ability: A, subject: AbilitySubjects[A]): boolean {
+    return RULES[ability](this.userService.currentUser(), subject);
+  }
+
+  // Re-evaluated whenever the user signs in or out
+  can<A extends Ability>(
+    ability: A,
+    subject: AbilitySubjects[A],
+  ): Observable<boolean> {
+    return this.userService.currentUser$.pipe(
+      map((user) => RULES[ability](user, subject)),
+      distinctUntilChanged(),
+    );
+  }
+}
@@ -0,0 +1,75 @@
+import { DestroyRef, inject, Injectable } from "@angular/core";
+import { Router } from "@angular/router";
+import { takeUntilDestroyed } from "@angular/core/rxjs-interop";
+import { defer, EMPTY, merge, Observable, timer } from "rxjs";
+import { distinctUntilChanged, map, switchMap, tap } from "rxjs/operators";
+import { JwtService } from "./jwt.service";
+import { UserService } from "./user.service";
+import { NotificationService } from "../../notifications/notification.service";
+import { loginUrlTree } from "../auth.guards";
+
+const WARNING_LEAD_MS = 5 * 60 * 1000;
+// setTimeout fires immediately for delays above 2^31 - 1 ms (~24.8 days)
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+@Injectable({ providedIn: "root" })
+export class SessionExpiryService {
+  private readonly jwtService = inject(JwtService);
+  private readonly userService = inject(UserService);
+  private readonly notificationService = inject(NotificationService);
+  private readonly router = inject(Router);
+  private readonly destroyRef = inject(DestroyRef);
+
+  // Warns before the token's exp claim is reached and signs out once it is
+  start(): void {
+    this.userService.currentUser$
+      .pipe(
+        map((user) => user && this.jwtService.getExpirationDate(user.token)),
+        distinctUntilChanged((a, b) => a?.getTime() === b?.getTime()),
+        switchMap((expiresAt) =>
+          expiresAt ? this.schedule(expiresAt) : EMPTY,
+        ),
+        takeUntilDestroyed(this.destroyRef),
+      )
+      .subscribe();
+  }
+
+  private schedule(expiresAt: Date): Observable<unknown> {
+    const warnAt = new Date(expiresAt.getTime() - WARNING_LEAD_MS);
+
+    return merge(
+      expiresAt > new Date()
+        ? timerAt(warnAt).pipe(tap(() => this.warn(expiresAt)))
+        : EMPTY,
+      timerAt(expiresAt).pipe(tap(() => this.expire())),
+    );
+  }
+
+  private warn(expiresAt: Date): void {
+    const minutes = Math.max(
+      1,
+      Math.round((expiresAt.getTime() - Date.now()) / 60000),
+    );
+    this.notificationService.warning(
+      `Your session expires in ${minutes} minute${minutes === 1 ? "" : "s"}. ` +
+        "Save your work and sign in again to keep going.",
+    );
+  }
+
+  private expire(): void {
+    this.userService.purgeAuth();
+    this.notificationService.warning(
+      "Your session has expired. Please sign in again.",
+    );
+    void this.router.navigateByUrl(loginUrlTree(this.router, this.router.url));
+  }
+}
+
+function timerAt(date: Date): Observable<0> {
+  return defer(() => {
+    const delay = date.getTime() - Date.now();
+    return delay > MAX_TIMER_MS
+      ? timer(MAX_TIMER_MS).pipe(switchMap(() => timerAt(date)))
+      : timer(Math.max(0, delay));
+  });
+}
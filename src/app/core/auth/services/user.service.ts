@@ -1,44 +1,66 @@
-import { Injectable } from "@angular/core";
+import { computed, Injectable, signal } from "@angular/core";
 import { Observable, BehaviorSubject } from "rxjs";
 
 import { JwtService } from "./jwt.service";
 import { map, distinctUntilChanged, tap, shareReplay } from "rxjs/operators";
 import { HttpClient } from "@angular/common/http";
 import { User } from "../user.model";
+import { TokenPersistence } from "../token-storage";
 import { Router } from "@angular/router";
+import { takeUntilDestroyed } from "@angular/core/rxjs-interop";
+import { HttpCacheService } from "../../cache/http-cache.service";
+import { EntityStoreService } from "../../store/entity-store.service";
+import { isAppError } from "../../models/app-error.model";
 
 @Injectable({ providedIn: "root" })
 export class UserService {
+  private user = signal<User | null>(null);
+  public currentUser = this.user.asReadonly();
+  public isAuthenticated = computed(() => !!this.user());
+
+  // Same values for RxJS code; they emit synchronously, unlike toObservable()
   private currentUserSubject = new BehaviorSubject<User | null>(null);
-  public currentUser = this.currentUserSubject
+  public currentUser$ = this.currentUserSubject
     .asObservable()
     .pipe(distinctUntilChanged());
-
-  public isAuthenticated = this.currentUser.pipe(map((user) => !!user));
+  public isAuthenticated$ = this.currentUser$.pipe(map((user) => !!user));
 
   constructor(
     private readonly http: HttpClient,
     private readonly jwtService: JwtService,
     private readonly router: Router,
-  ) {}
+    private readonly cache: HttpCacheService,
+    private readonly store: EntityStoreService,
+  ) {
+    this.jwtService.tokenChanges
+      .pipe(takeUntilDestroyed())
+      .subscribe((token) => this.syncToken(token));
+  }
 
-  login(credentials: {
-    email: string;
-    password: string;
-  }): Observable<{ user: User }> {
+  // Without "remember me" the token only lives as long as the tab
+  login(
+    credentials: {
+      email: string;
+      password: string;
+    },
+    remember = true,
+  ): Observable<{ user: User }> {
     return this.http
       .post<{ user: User }>("/users/login", { user: credentials })
-      .pipe(tap(({ user }) => this.setAuth(user)));
+      .pipe(tap(({ user }) => this.setAuth(user, persistence(remember))));
   }
 
-  register(credentials: {
-    username: string;
-    email: string;
-    password: string;
-  }): Observable<{ user: User }> {
+  register(
+    credentials: {
+      username: string;
+      email: string;
+      password: string;
+    },
+    remember = true,
+  ): Observable<{ user: User }> {
     return this.http
       .post<{ user: User }>("/users", { user: credentials })
-      .pipe(tap(({ user }) => this.setAuth(user)));
+      .pipe(tap(({ user }) => this.setAuth(user, persistence(remember))));
   }
 
   logout(): void {
@@ -50,7 +72,12 @@ export class UserService {
     return this.http.get<{ user: User }>("/user").pipe(
       tap({
         next: ({ user }) => this.setAuth(user),
-        error: () => this.purgeAuth(),
+        // Other failures (e.g. offline) say nothing about the token
+        error: (error) => {
+          if (isAppError(error) && error.kind === "unauthorized") {
+            this.purgeAuth();
+          }
+        },
       }),
       shareReplay(1),
     );
@@ -59,18 +86,50 @@ export class UserService {
   update(user: Partial<User>): Observable<{ user: User }> {
     return this.http.put<{ user: User }>("/user", { user }).pipe(
       tap(({ user }) => {
-        this.currentUserSubject.next(user);
+        // The name and image show up in cached profiles and articles
+        this.cache.clear();
+        this.store.patchProfile(user.username, {
+          bio: user.bio,
+          image: user.image,
+        });
+        this.setUser(user);
       }),
     );
   }
 
-  setAuth(user: User): void {
-    this.jwtService.saveToken(user.token);
-    this.currentUserSubject.next(user);
+  setAuth(user: User, persistence?: TokenPersistence): void {
+    this.jwtService.saveToken(user.token, persistence);
+    this.setUser(user);
   }
 
   purgeAuth(): void {
     this.jwtService.destroyToken();
-    this.currentUserSubject.next(null);
+    this.signOut();
   }
+
+  // Follows a login, logout or user switch made in another tab
+  private syncToken(token: string | null): void {
+    if (!token) {
+      this.signOut();
+    } else if (token !== this.user()?.token) {
+      this.getCurrentUser().subscribe({ error: () => {} });
+    }
+  }
+
+  private signOut(): void {
+    // Cached responses and stored entities carry this user's flags. Open
+    // pages fetch their entities again once the user changes.
+    this.cache.clear();
+    this.store.clear();
+    this.setUser(null);
+  }
+
+  private setUser(user: User | null): void {
+    this.user.set(user);
+    this.currentUserSubject.next(user);
+  }
+}
+
+function persistence(remember: boolean): TokenPersistence {
+  return remember ? "local" : "session";
 }
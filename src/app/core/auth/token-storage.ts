@@ -0,0 +1,89 @@
+export type TokenPersistence = "local" | "session" | "memory";
+
+export abstract class TokenStorage {
+  abstract readonly persistence: TokenPersistence;
+  abstract isAvailable(): boolean;
+  abstract get(): string | null;
+  abstract set(token: string): void;
+  abstract remove(): void;
+}
+
+abstract class WebTokenStorage extends TokenStorage {
+  constructor(private readonly key: string) {
+    super();
+  }
+
+  protected abstract storage(): Storage;
+
+  // Storage access throws when it is disabled (e.g. blocked cookies)
+  isAvailable(): boolean {
+    try {
+      const probe = `${this.key}.probe`;
+      this.storage().setItem(probe, probe);
+      this.storage().removeItem(probe);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  get(): string | null {
+    try {
+      return this.storage().getItem(this.key);
+    } catch {
+      return null;
+    }
+  }
+
+  set(token: string): void {
+    this.storage().setItem(this.key, token);
+  }
+
+  remove(): void {
+    try {
+      this.storage().removeItem(this.key);
+    } catch {
+      // Nothing can have been stored
+    }
+  }
+}
+
+// Survives browser restarts and is shared by all tabs
+export class LocalTokenStorage extends WebTokenStorage {
+  readonly persistence = "local";
+
+  protected storage(): Storage {
+    return window.localStorage;
+  }
+}
+
+// Cleared when the tab is closed
+export class SessionTokenStorage extends WebTokenStorage {
+  readonly persistence = "session";
+
+  protected storage(): Storage {
+    return window.sessionStorage;
+  }
+}
+
+// Cleared on reload; the fallback when web storage is unavailable
+export class MemoryTokenStorage extends TokenStorage {
+  readonly persistence = "memory";
+  private token: string | null = null;
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  get(): string | null {
+    return this.token;
+  }
+
+  set(token: string): void {
+    this.token = token;
+  }
+
+  remove(): void {
+    this.token = null;
+  }
+}
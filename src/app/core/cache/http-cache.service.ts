@@ -0,0 +1,80 @@
+import { Injectable } from "@angular/core";
+import { HttpContextToken, HttpResponse } from "@angular/common/http";
+
+// Set on a request to skip cached responses; the fresh one is still stored
+export const BYPASS_CACHE = new HttpContextToken<boolean>(() => false);
+
+export interface CachePolicy {
+  path: RegExp;
+  // Served from the cache without a request
+  ttlMs: number;
+  // Afterwards, served from the cache while a request refreshes it
+  staleMs: number;
+}
+
+interface CacheEntry {
+  response: HttpResponse<unknown>;
+  // Responses depend on the user (favorited, following...)
+  token: string | null;
+  storedAt: number;
+}
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const MAX_ENTRIES = 200;
+
+const POLICIES: CachePolicy[] = [
+  { path: /^\/tags$/, ttlMs: 5 * MINUTE, staleMs: 30 * MINUTE },
+  { path: /^\/profiles\/[^/]+$/, ttlMs: MINUTE, staleMs: 10 * MINUTE },
+  { path: /^\/articles\/(?!feed$)[^/]+$/, ttlMs: MINUTE, staleMs: 10 * MINUTE },
+  {
+    path: /^\/articles\/[^/]+\/comments$/,
+    ttlMs: 30 * SECOND,
+    staleMs: 5 * MINUTE,
+  },
+];
+
+@Injectable({ providedIn: "root" })
+export class HttpCacheService {
+  private entries = new Map<string, CacheEntry>();
+
+  policyFor(url: string): CachePolicy | null {
+    return POLICIES.find((policy) => policy.path.test(url)) ?? null;
+  }
+
+  get(key: string, token: string | null): CacheEntry | null {
+    const entry = this.entries.get(key);
+    return entry && entry.token === token ? entry : null;
+  }
+
+  set(key: string, token: string | null, response: HttpResponse<unknown>) {
+    this.entries.delete(key);
+    this.entries.set(key, { response, token, storedAt: Date.now() });
+
+    // Maps iterate in insertion order, so the first key is the oldest
+    if (this.entries.size > MAX_ENTRIES) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  // Drops the given paths and everything below them, e.g. "/articles/x"
+  // also drops "/articles/x/comments" and "/articles/x?foo=bar"
+  invalidate(...paths: string[]): void {
+    for (const key of [...this.entries.keys()]) {
+      if (
+        paths.some(
+          (path) =>
+            key === path ||
+            key.startsWith(`${path}/`) ||
+            key.startsWith(`${path}?`),
+        )
+      ) {
+        this.entries.delete(key);
+      }
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
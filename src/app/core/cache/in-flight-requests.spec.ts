@@ -0,0 +1,85 @@
+import { concat, Observable, of, Subject } from "rxjs";
+import { filter } from "rxjs/operators";
+import { InFlightRequests } from "./in-flight-requests";
+
+describe("InFlightRequests", () => {
+  let inFlight: InFlightRequests;
+  let refetch: Subject<string>;
+  let requests: number;
+
+  // Like a stale cache hit: the cached body at once, then the refetch,
+  // which only emits when the body changed
+  const staleWhileRevalidate = (): Observable<string> => {
+    requests++;
+    return concat(
+      of("cached"),
+      refetch.pipe(filter((body) => body !== "cached")),
+    );
+  };
+
+  beforeEach(() => {
+    inFlight = new InFlightRequests();
+    refetch = new Subject<string>();
+    requests = 0;
+  });
+
+  it("replays the cached value to a subscriber joining during revalidation with an unchanged body", () => {
+    const first: string[] = [];
+    const second: string[] = [];
+    let secondCompleted = false;
+
+    inFlight
+      .share("/articles/a", staleWhileRevalidate)
+      .subscribe((body) => first.push(body));
+    inFlight.share("/articles/a", staleWhileRevalidate).subscribe({
+      next: (body) => second.push(body),
+      complete: () => (secondCompleted = true),
+    });
+    refetch.next("cached");
+    refetch.complete();
+
+    expect(requests).toBe(1);
+    expect(first).toEqual(["cached"]);
+    expect(second).toEqual(["cached"]);
+    expect(secondCompleted).toBeTrue();
+  });
+
+  it("delivers a changed body to every subscriber", () => {
+    const first: string[] = [];
+    const second: string[] = [];
+
+    inFlight
+      .share("/articles/a", staleWhileRevalidate)
+      .subscribe((body) => first.push(body));
+    inFlight
+      .share("/articles/a", staleWhileRevalidate)
+      .subscribe((body) => second.push(body));
+    refetch.next("fresh");
+    refetch.complete();
+
+    expect(first).toEqual(["cached", "fresh"]);
+    expect(second).toEqual(["cached", "fresh"]);
+  });
+
+  it("sends a new request once the previous one has finished", () => {
+    inFlight.share("/articles/a", staleWhileRevalidate).subscribe();
+    refetch.complete();
+    refetch = new Subject<string>();
+    inFlight.share("/articles/a", staleWhileRevalidate).subscribe();
+
+    expect(requests).toBe(2);
+  });
+
+  it("keeps a newer request when a finished one is subscribed again", () => {
+    const old = inFlight.share("/articles/a", staleWhileRevalidate);
+    old.subscribe();
+    refetch.complete();
+
+    refetch = new Subject<string>();
+    inFlight.share("/articles/a", staleWhileRevalidate).subscribe();
+    old.subscribe();
+    inFlight.share("/articles/a", staleWhileRevalidate).subscribe();
+
+    expect(requests).toBe(2);
+  });
+});
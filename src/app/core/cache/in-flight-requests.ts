@@ -0,0 +1,29 @@
+import { defer, Observable } from "rxjs";
+import { finalize, shareReplay } from "rxjs/operators";
+
+// Lets identical requests made while one is still pending share it, instead
+// of sending the same GET several times
+export class InFlightRequests {
+  private requests = new Map<string, Observable<unknown>>();
+
+  share<T>(key: string, request: () => Observable<T>): Observable<T> {
+    let shared = this.requests.get(key) as Observable<T> | undefined;
+    if (!shared) {
+      const created: Observable<T> = defer(request).pipe(
+        // Done, failed or abandoned by every subscriber. A finished request
+        // subscribed again later must not remove a newer one for the key.
+        finalize(() => {
+          if (this.requests.get(key) === created) {
+            this.requests.delete(key);
+          }
+        }),
+        // A stale cached response is only emitted once, before the refetch,
+        // so later subscribers need it replayed
+        shareReplay({ bufferSize: 1, refCount: true }),
+      );
+      this.requests.set(key, created);
+      shared = created;
+    }
+    return shared;
+  }
+}
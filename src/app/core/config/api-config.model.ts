@@ -0,0 +1,11 @@
+export interface ApiEnvironment {
+  baseUrl: string;
+  pathPrefix?: string;
+  // Serve requests from the in-memory fake backend instead of the network
+  fakeBackend?: boolean;
+}
+
+export interface ApiConfig {
+  environment: string;
+  environments: { [name: string]: ApiEnvironment };
+}
@@ -0,0 +1,11 @@
+import { InjectionToken } from "@angular/core";
+import { ApiConfig } from "./api-config.model";
+
+export const API_CONFIG = new InjectionToken<ApiConfig>("API_CONFIG");
+
+export const DEFAULT_API_CONFIG: ApiConfig = {
+  environment: "production",
+  environments: {
+    production: { baseUrl: "https://api.realworld.io", pathPrefix: "/api" },
+  },
+};
@@ -0,0 +1,66 @@
+import { inject, Injectable } from "@angular/core";
+import { HttpBackend, HttpClient } from "@angular/common/http";
+import { Observable, of } from "rxjs";
+import { catchError, map, tap } from "rxjs/operators";
+import { API_CONFIG } from "../api-config";
+import { ApiConfig, ApiEnvironment } from "../api-config.model";
+
+const ABSOLUTE_URL = /^([a-z][a-z\d+\-.]*:)?\/\//i;
+
+@Injectable({ providedIn: "root" })
+export class ApiConfigService {
+  // Bypasses the interceptors, which depend on the config being loaded
+  private readonly http = new HttpClient(inject(HttpBackend));
+  private config = inject(API_CONFIG);
+
+  get environment(): ApiEnvironment {
+    return this.config.environments[this.config.environment];
+  }
+
+  load(url = "config.json"): Observable<ApiConfig> {
+    return this.http.get<Partial<ApiConfig>>(url).pipe(
+      // Missing config.json keeps the provided defaults
+      catchError(() => of<Partial<ApiConfig>>({})),
+      map((runtime) => {
+        const config: ApiConfig = {
+          environment: runtime.environment ?? this.config.environment,
+          environments: {
+            ...this.config.environments,
+            ...runtime.environments,
+          },
+        };
+        if (!config.environments[config.environment]) {
+          throw new Error(
+            `Unknown API environment "${config.environment}" in ${url}`,
+          );
+        }
+        return config;
+      }),
+      tap((config) => (this.config = config)),
+    );
+  }
+
+  resolveUrl(url: string): string {
+    if (ABSOLUTE_URL.test(url)) {
+      return url;
+    }
+    return `${this.apiRoot()}${url}`;
+  }
+
+  // Inverse of resolveUrl: the API path of a resolved URL, or null when the
+  // URL does not point at the configured API
+  apiPath(url: string): string | null {
+    const root = this.apiRoot();
+    const path = url.startsWith(root) ? url.slice(root.length) : null;
+    if (path === null || !/^(\/|$)/.test(path)) {
+      return null;
+    }
+    return path || "/";
+  }
+
+  private apiRoot(): string {
+    const { baseUrl, pathPrefix = "" } = this.environment;
+    const prefix = pathPrefix.replace(/^\/+|\/+$/g, "");
+    return `${baseUrl.replace(/\/+$/, "")}${prefix && `/${prefix}`}`;
+  }
+}
@@ -0,0 +1,22 @@
+import { ErrorHandler, inject, Injectable } from "@angular/core";
+import { isAppError } from "../models/app-error.model";
+import { ErrorReportService } from "./error-report.service";
+
+// Receives every uncaught error, from templates, lifecycle hooks, event
+// handlers and (with provideBrowserGlobalErrorListeners) the window. Failed
+// requests are already shown where they happen, so only other errors are
+// treated as fatal and bring up the crash overlay.
+@Injectable()
+export class AppErrorHandler extends ErrorHandler {
+  private readonly errorReport = inject(ErrorReportService);
+
+  override handleError(error: unknown): void {
+    super.handleError(error);
+    try {
+      this.errorReport.recordError(error, !isAppError(error));
+    } catch (reportError) {
+      // Never let reporting throw back into the handler
+      console.error(reportError);
+    }
+  }
+}
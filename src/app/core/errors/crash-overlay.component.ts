@@ -0,0 +1,96 @@
+import {
+  ChangeDetectionStrategy,
+  Component,
+  inject,
+  signal,
+} from "@angular/core";
+import { ErrorReportService } from "./error-report.service";
+
+// Covers the page after a fatal error, which may have left it half rendered
+@Component({
+  selector: "app-crash-overlay",
+  template: `
+    @if (errorReport.fatal(); as error) {
+      <div
+        class="crash-overlay"
+        role="alertdialog"
+        aria-labelledby="crash-title"
+        aria-describedby="crash-message"
+      >
+        <div class="crash-dialog">
+          <h2 id="crash-title">Something went wrong</h2>
+          <p id="crash-message">
+            This page ran into an error and may not work correctly. Reloading
+            usually fixes it.
+          </p>
+          <p class="text-muted">{{ error.name }}: {{ error.message }}</p>
+          <p>
+            <button class="btn btn-primary" (click)="reload()">
+              <i class="ion-refresh"></i> Reload
+            </button>
+            &nbsp;
+            <button class="btn btn-outline-secondary" (click)="dismiss()">
+              Continue anyway
+            </button>
+          </p>
+          <p class="crash-report">
+            If it keeps happening, attach the error report to your bug report:
+            <button
+              class="btn btn-sm btn-outline-secondary"
+              (click)="errorReport.download()"
+            >
+              <i class="ion-archive"></i> Download report
+            </button>
+            &nbsp;
+            <button class="btn btn-sm btn-outline-secondary" (click)="copy()">
+              <i class="ion-clipboard"></i> {{ copyLabel() }}
+            </button>
+          </p>
+        </div>
+      </div>
+    }
+  `,
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  styles: `
+    .crash-overlay {
+      position: fixed;
+      inset: 0;
+      z-index: 2000;
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      padding: 1rem;
+      background: rgba(255, 255, 255, 0.9);
+    }
+    .crash-dialog {
+      max-width: 32rem;
+      padding: 1.5rem;
+      border: 1px solid #ddd;
+      border-radius: 4px;
+      background: #fff;
+    }
+    .crash-report {
+      font-size: 0.8rem;
+    }
+  `,
+})
+export class CrashOverlayComponent {
+  errorReport = inject(ErrorReportService);
+  copyLabel = signal("Copy report");
+
+  reload(): void {
+    location.reload();
+  }
+
+  dismiss(): void {
+    this.errorReport.dismiss();
+    this.copyLabel.set("Copy report");
+  }
+
+  copy(): void {
+    this.errorReport.copy().then(
+      () => this.copyLabel.set("Copied"),
+      () => this.copyLabel.set("Copy failed, use download"),
+    );
+  }
+}
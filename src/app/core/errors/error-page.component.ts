@@ -0,0 +1,47 @@
+import { ChangeDetectionStrategy, Component } from "@angular/core";
+import { Location } from "@angular/common";
+import { Router, RouterLink } from "@angular/router";
+import { loadFailedState } from "./load-failed";
+
+@Component({
+  selector: "app-error-page",
+  template: `
+    <div class="container page">
+      <div class="row">
+        <div class="col-md-6 offset-md-3 col-xs-12 text-xs-center">
+          <h1>Something went wrong</h1>
+          <p>
+            The {{ what }} could not be loaded.
+            {{ message }}
+          </p>
+          <p>
+            <button class="btn btn-outline-primary" (click)="retry()">
+              <i class="ion-refresh"></i> Try again
+            </button>
+          </p>
+          <p><a [routerLink]="['/']">Back to the home page</a></p>
+        </div>
+      </div>
+    </div>
+  `,
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  imports: [RouterLink],
+})
+export default class ErrorPageComponent {
+  what: string;
+  message: string;
+
+  constructor(
+    private readonly router: Router,
+    private readonly location: Location,
+  ) {
+    const state = loadFailedState(router);
+    this.what = state?.what ?? "page";
+    this.message = state?.message ?? "";
+  }
+
+  // The address bar still shows the URL that failed
+  retry(): void {
+    void this.router.navigateByUrl(this.location.path());
+  }
+}
@@ -0,0 +1,193 @@
+import {
+  DestroyRef,
+  inject,
+  Injectable,
+  Injector,
+  signal,
+} from "@angular/core";
+import { DOCUMENT } from "@angular/common";
+import { NavigationEnd, Router } from "@angular/router";
+import { takeUntilDestroyed } from "@angular/core/rxjs-interop";
+import { filter } from "rxjs/operators";
+import { isAppError } from "../models/app-error.model";
+import { UserService } from "../auth/services/user.service";
+
+// Only the most recent entries are kept, older ones are dropped
+const MAX_ERRORS = 20;
+const MAX_ACTIONS = 30;
+const MAX_LABEL_LENGTH = 60;
+
+export interface ErrorRecord {
+  time: string;
+  name: string;
+  message: string;
+  stack?: string;
+  // Errors the page cannot recover from without a reload
+  fatal: boolean;
+  route: string;
+  user: string | null;
+}
+
+export interface ActionRecord {
+  time: string;
+  action: string;
+}
+
+export interface ErrorReport {
+  createdAt: string;
+  url: string;
+  userAgent: string;
+  user: string | null;
+  errors: ErrorRecord[];
+  actions: ActionRecord[];
+}
+
+// Keeps the last errors and user actions in memory so they can be attached
+// to a bug report. Nothing is sent anywhere, and form values, tokens and
+// emails are never recorded.
+@Injectable({ providedIn: "root" })
+export class ErrorReportService {
+  private readonly injector = inject(Injector);
+  private readonly document = inject(DOCUMENT);
+  private readonly destroyRef = inject(DestroyRef);
+  private errors: ErrorRecord[] = [];
+  private actions: ActionRecord[] = [];
+  private readonly fatalError = signal<ErrorRecord | null>(null);
+  // The first fatal error, shown by CrashOverlayComponent
+  readonly fatal = this.fatalError.asReadonly();
+
+  // Records navigations, clicks and form submissions as recent actions
+  start(): void {
+    this.injector
+      .get(Router)
+      .events.pipe(
+        filter((event) => event instanceof NavigationEnd),
+        takeUntilDestroyed(this.destroyRef),
+      )
+      .subscribe((event) =>
+        this.recordAction(`navigate to ${event.urlAfterRedirects}`),
+      );
+
+    const onClick = (event: Event) => {
+      const target = (event.target as Element | null)?.closest(
+        "a, button, [role=button]",
+      );
+      if (target) {
+        this.recordAction(`click ${describe(target)}`);
+      }
+    };
+    const onSubmit = (event: Event) =>
+      this.recordAction(`submit ${describe(event.target as Element)}`);
+    // Capturing, so handlers that stop propagation are still seen
+    this.document.addEventListener("click", onClick, true);
+    this.document.addEventListener("submit", onSubmit, true);
+    this.destroyRef.onDestroy(() => {
+      this.document.removeEventListener("click", onClick, true);
+      this.document.removeEventListener("submit", onSubmit, true);
+    });
+  }
+
+  recordAction(action: string): void {
+    this.actions = [
+      ...this.actions,
+      { time: new Date().toISOString(), action },
+    ].slice(-MAX_ACTIONS);
+  }
+
+  recordError(error: unknown, fatal: boolean): ErrorRecord {
+    const record: ErrorRecord = {
+      time: new Date().toISOString(),
+      ...errorDetails(error),
+      fatal,
+      route: this.route(),
+      user: this.username(),
+    };
+    this.errors = [...this.errors, record].slice(-MAX_ERRORS);
+    if (fatal && !this.fatalError()) {
+      this.fatalError.set(record);
+    }
+    return record;
+  }
+
+  // Lets the user keep going on a page that may not work correctly
+  dismiss(): void {
+    this.fatalError.set(null);
+  }
+
+  report(): ErrorReport {
+    return {
+      createdAt: new Date().toISOString(),
+      url: this.document.location.href,
+      userAgent: navigator.userAgent,
+      user: this.username(),
+      errors: [...this.errors],
+      actions: [...this.actions],
+    };
+  }
+
+  reportText(): string {
+    return JSON.stringify(this.report(), null, 2);
+  }
+
+  download(): void {
+    const url = URL.createObjectURL(
+      new Blob([this.reportText()], { type: "application/json" }),
+    );
+    const link = this.document.createElement("a");
+    link.href = url;
+    link.download = `conduit-error-report-${Date.now()}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  copy(): Promise<void> {
+    return navigator.clipboard.writeText(this.reportText());
+  }
+
+  // Resolved on use: the error handler is created before the router is, and
+  // reporting must not fail because of them
+  private route(): string {
+    try {
+      return this.injector.get(Router).url;
+    } catch {
+      return this.document.location.pathname;
+    }
+  }
+
+  private username(): string | null {
+    try {
+      return this.injector.get(UserService).currentUser()?.username ?? null;
+    } catch {
+      return null;
+    }
+  }
+}
+
+function errorDetails(
+  error: unknown,
+): Pick<ErrorRecord, "name" | "message" | "stack"> {
+  if (isAppError(error)) {
+    return {
+      name: `AppError (${error.kind}, ${error.status})`,
+      message: error.message,
+    };
+  }
+  if (error instanceof Error) {
+    return { name: error.name, message: error.message, stack: error.stack };
+  }
+  return { name: typeof error, message: String(error) };
+}
+
+// A short label for the element, e.g. button "Publish Article"
+function describe(element: Element): string {
+  const label = (
+    element.getAttribute("aria-label") ??
+    element.textContent ??
+    ""
+  )
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, MAX_LABEL_LENGTH);
+  const tag = element.tagName.toLowerCase();
+  return label ? `${tag} "${label}"` : tag;
+}
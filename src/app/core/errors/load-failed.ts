@@ -0,0 +1,37 @@
+import { RedirectCommand, Router } from "@angular/router";
+import { isAppError } from "../models/app-error.model";
+
+// Passed to the not-found and error pages through the navigation state
+export interface LoadFailedState {
+  // What could not be loaded, e.g. "article"
+  what: string;
+  message?: string;
+}
+
+// Shows the not-found or error page in place of the route. The address bar
+// keeps the requested URL, so reloading or retrying asks for it again.
+export function loadFailed(
+  router: Router,
+  error: unknown,
+  what: string,
+): RedirectCommand {
+  const notFound = isAppError(error) && error.kind === "not-found";
+  const state: LoadFailedState = {
+    what,
+    message: isAppError(error) ? error.message : undefined,
+  };
+  return new RedirectCommand(
+    router.parseUrl(notFound ? "/not-found" : "/error"),
+    {
+      skipLocationChange: true,
+      state: { ...state },
+    },
+  );
+}
+
+export function loadFailedState(router: Router): LoadFailedState | null {
+  const state = router.getCurrentNavigation()?.extras.state;
+  return state && typeof state["what"] === "string"
+    ? (state as LoadFailedState)
+    : null;
+}
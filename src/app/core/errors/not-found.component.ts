@@ -0,0 +1,32 @@
+import { ChangeDetectionStrategy, Component } from "@angular/core";
+import { Router, RouterLink } from "@angular/router";
+import { loadFailedState } from "./load-failed";
+
+@Component({
+  selector: "app-not-found-page",
+  template: `
+    <div class="container page">
+      <div class="row">
+        <div class="col-md-6 offset-md-3 col-xs-12 text-xs-center">
+          <h1>Not found</h1>
+          <p>This {{ what }} does not exist, or it has been deleted.</p>
+          <p>
+            <a [routerLink]="['/']">Back to the home page</a>
+            @if (what === "article") {
+              or <a [routerLink]="['/search']">search for articles</a>
+            }
+          </p>
+        </div>
+      </div>
+    </div>
+  `,
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  imports: [RouterLink],
+})
+export default class NotFoundComponent {
+  what: string;
+
+  constructor(router: Router) {
+    this.what = loadFailedState(router)?.what ?? "page";
+  }
+}
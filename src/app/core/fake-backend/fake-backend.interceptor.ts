@@ -0,0 +1,637 @@
+import { inject } from "@angular/core";
+import {
+  HttpErrorResponse,
+  HttpInterceptorFn,
+  HttpRequest,
+  HttpResponse,
+} from "@angular/common/http";
+import { Observable, of, throwError, timer } from "rxjs";
+import { switchMap } from "rxjs/operators";
+import { ApiConfigService } from "../config/services/api-config.service";
+import { Errors } from "../models/errors.model";
+import { FakeArticle, FakeDb, FakeUser } from "./fake-backend.model";
+import { FakeDbService } from "./fake-db.service";
+
+const LATENCY_MS = 150;
+const TOKEN_TTL_SECONDS = 24 * 60 * 60;
+
+class FakeApiError {
+  constructor(
+    readonly status: number,
+    readonly errors: Errors["errors"],
+  ) {}
+}
+
+interface FakeRequest {
+  req: HttpRequest<unknown>;
+  params: string[];
+  db: FakeDb;
+  user: FakeUser | null;
+}
+
+interface FakeRoute {
+  method: string;
+  path: RegExp;
+  status?: number;
+  handle: (request: FakeRequest) => unknown;
+}
+
+/**
+ * Answers RealWorld API requests from an in-memory database persisted to
+ * localStorage. Registered with `FAKE_BACKEND` in app.config.ts, then only
+ * active for API environments with `fakeBackend: true`. Must be the last
+ * interceptor so it sees the resolved URL and token.
+ */
+export const fakeBackendInterceptor: HttpInterceptorFn = (req, next) => {
+  const apiConfig = inject(ApiConfigService);
+  const path = apiConfig.environment.fakeBackend
+    ? apiConfig.apiPath(req.url)
+    : null;
+
+  if (path === null) {
+    return next(req);
+  }
+
+  const fakeDb = inject(FakeDbService);
+  return timer(LATENCY_MS).pipe(switchMap(() => respond(req, path, fakeDb)));
+};
+
+function respond(
+  req: HttpRequest<unknown>,
+  path: string,
+  fakeDb: FakeDbService,
+): Observable<HttpResponse<unknown>> {
+  try {
+    const user = authenticate(req, fakeDb.db);
+
+    for (const route of routes) {
+      const match = route.method === req.method && route.path.exec(path);
+      if (match) {
+        const params = match.slice(1).map(decodeURIComponent);
+        const body = route.handle({ req, params, db: fakeDb.db, user });
+        if (req.method !== "GET") {
+          fakeDb.save();
+        }
+        return of(
+          new HttpResponse({ status: route.status ?? 200, body, url: req.url }),
+        );
+      }
+    }
+
+    throw new FakeApiError(404, { [path]: "not found" });
+  } catch (error) {
+    if (!(error instanceof FakeApiError)) {
+      throw error;
+    }
+    return throwError(
+      () =>
+        new HttpErrorResponse({
+          status: error.status,
+          error: { errors: error.errors },
+          url: req.url,
+        }),
+    );
+  }
+}
+
+const routes: FakeRoute[] = [
+  { method: "POST", path: /^\/users\/login$/, handle: login },
+  { method: "POST", path: /^\/users$/, status: 201, handle: register },
+  { method: "GET", path: /^\/user$/, handle: getUser },
+  { method: "PUT", path: /^\/user$/, handle: updateUser },
+  { method: "GET", path: /^\/profiles\/([^/]+)$/, handle: getProfile },
+  {
+    method: "POST",
+    path: /^\/profiles\/([^/]+)\/follow$/,
+    handle: (r) => setFollowing(r, true),
+  },
+  {
+    method: "DELETE",
+    path: /^\/profiles\/([^/]+)\/follow$/,
+    handle: (r) => setFollowing(r, false),
+  },
+  { method: "GET", path: /^\/articles\/?$/, handle: listArticles },
+  { method: "GET", path: /^\/articles\/feed$/, handle: listFeed },
+  {
+    method: "POST",
+    path: /^\/articles\/?$/,
+    status: 201,
+    handle: createArticle,
+  },
+  { method: "GET", path: /^\/articles\/([^/]+)$/, handle: getArticle },
+  { method: "PUT", path: /^\/articles\/([^/]+)$/, handle: updateArticle },
+  { method: "DELETE", path: /^\/articles\/([^/]+)$/, handle: deleteArticle },
+  {
+    method: "POST",
+    path: /^\/articles\/([^/]+)\/favorite$/,
+    handle: (r) => setFavorited(r, true),
+  },
+  {
+    method: "DELETE",
+    path: /^\/articles\/([^/]+)\/favorite$/,
+    handle: (r) => setFavorited(r, false),
+  },
+  {
+    method: "GET",
+    path: /^\/articles\/([^/]+)\/comments$/,
+    handle: listComments,
+  },
+  {
+    method: "POST",
+    path: /^\/articles\/([^/]+)\/comments$/,
+    status: 201,
+    handle: addComment,
+  },
+  {
+    method: "DELETE",
+    path: /^\/articles\/([^/]+)\/comments\/([^/]+)$/,
+    handle: deleteComment,
+  },
+  { method: "GET", path: /^\/tags$/, handle: listTags },
+];
+
+// Users
+
+function login({ req, db }: FakeRequest) {
+  const credentials = requireFields(bodyField(req, "user"), [
+    "email",
+    "password",
+  ]);
+
+  const user = db.users.find(
+    (u) => u.email === credentials.email && u.password === credentials.password,
+  );
+  if (!user) {
+    throw new FakeApiError(422, { "email or password": "is invalid" });
+  }
+  return { user: toUser(user) };
+}
+
+function register({ req, db }: FakeRequest) {
+  const fields = requireFields(bodyField(req, "user"), [
+    "username",
+    "email",
+    "password",
+  ]);
+  assertUnique(db, fields);
+
+  const user: FakeUser = {
+    id: db.nextId++,
+    email: fields.email,
+    username: fields.username,
+    password: fields.password,
+    bio: "",
+    image: "",
+    following: [],
+  };
+  db.users.push(user);
+  return { user: toUser(user) };
+}
+
+function getUser(request: FakeRequest) {
+  return { user: toUser(requireUser(request)) };
+}
+
+function updateUser(request: FakeRequest) {
+  const user = requireUser(request);
+  const changes = bodyField(request.req, "user");
+  assertUnique(
+    request.db,
+    {
+      email: stringField(changes, "email"),
+      username: stringField(changes, "username"),
+    },
+    user,
+  );
+
+  for (const key of ["email", "username", "bio", "image"] as const) {
+    const value = stringField(changes, key);
+    if (value !== undefined) {
+      user[key] = value;
+    }
+  }
+  const password = stringField(changes, "password");
+  if (password) {
+    user.password = password;
+  }
+  return { user: toUser(user) };
+}
+
+// Profiles
+
+function getProfile({ params, db, user }: FakeRequest) {
+  return { profile: toProfile(findUser(db, params[0]), user) };
+}
+
+function setFollowing(request: FakeRequest, following: boolean) {
+  const user = requireUser(request);
+  const target = findUser(request.db, request.params[0]);
+
+  user.following = user.following.filter((id) => id !== target.id);
+  if (following) {
+    user.following.push(target.id);
+  }
+  return { profile: toProfile(target, user) };
+}
+
+// Articles
+
+function listArticles(request: FakeRequest) {
+  const { req, db } = request;
+  const tag = req.params.get("tag");
+  const author = req.params.get("author");
+  const favorited = req.params.get("favorited");
+  const favoritedBy = favorited
+    ? db.users.find((u) => u.username === favorited)
+    : null;
+
+  return paginate(
+    request,
+    db.articles.filter(
+      (article) =>
+        (!tag || article.tagList.includes(tag)) &&
+        (!author || authorOf(db, article).username === author) &&
+        (!favorited ||
+          (!!favoritedBy && article.favoritedBy.includes(favoritedBy.id))),
+    ),
+  );
+}
+
+function listFeed(request: FakeRequest) {
+  const user = requireUser(request);
+  return paginate(
+    request,
+    request.db.articles.filter((article) =>
+      user.following.includes(article.authorId),
+    ),
+  );
+}
+
+function getArticle({ params, db, user }: FakeRequest) {
+  return { article: toArticle(db, findArticle(db, params[0]), user) };
+}
+
+function createArticle(request: FakeRequest) {
+  const user = requireUser(request);
+  const sent = bodyField(request.req, "article");
+  const fields = requireFields(sent, ["title", "description", "body"]);
+
+  const now = new Date().toISOString();
+  const article: FakeArticle = {
+    slug: uniqueSlug(request.db, fields.title),
+    title: fields.title,
+    description: fields.description,
+    body: fields.body,
+    tagList: normalizeTags(sent["tagList"]),
+    createdAt: now,
+    updatedAt: now,
+    authorId: user.id,
+    favoritedBy: [],
+  };
+  request.db.articles.push(article);
+  return { article: toArticle(request.db, article, user) };
+}
+
+function updateArticle(request: FakeRequest) {
+  const { db, params } = request;
+  const user = requireUser(request);
+  const article = findOwnArticle(db, params[0], user);
+  const changes = bodyField(request.req, "article");
+
+  const title = stringField(changes, "title");
+  if (title !== undefined && title !== article.title) {
+    if (!title.trim()) {
+      throw new FakeApiError(422, { title: "can't be blank" });
+    }
+    const slug = uniqueSlug(db, title);
+    db.comments
+      .filter((comment) => comment.articleSlug === article.slug)
+      .forEach((comment) => (comment.articleSlug = slug));
+    article.slug = slug;
+    article.title = title;
+  }
+  for (const key of ["description", "body"] as const) {
+    const value = stringField(changes, key);
+    if (value !== undefined) {
+      article[key] = value;
+    }
+  }
+  if (changes["tagList"]) {
+    article.tagList = normalizeTags(changes["tagList"]);
+  }
+  article.updatedAt = new Date().toISOString();
+  return { article: toArticle(db, article, user) };
+}
+
+function deleteArticle(request: FakeRequest) {
+  const { db, params } = request;
+  const article = findOwnArticle(db, params[0], requireUser(request));
+
+  db.articles = db.articles.filter((a) => a !== article);
+  db.comments = db.comments.filter((c) => c.articleSlug !== article.slug);
+  return {};
+}
+
+function setFavorited(request: FakeRequest, favorited: boolean) {
+  const user = requireUser(request);
+  const article = findArticle(request.db, request.params[0]);
+
+  article.favoritedBy = article.favoritedBy.filter((id) => id !== user.id);
+  if (favorited) {
+    article.favoritedBy.push(user.id);
+  }
+  return { article: toArticle(request.db, article, user) };
+}
+
+// Comments
+
+function listComments({ params, db, user }: FakeRequest) {
+  const article = findArticle(db, params[0]);
+  return {
+    comments: db.comments
+      .filter((comment) => comment.articleSlug === article.slug)
+      .sort(byNewest)
+      .map((comment) => ({
+        id: comment.id,
+        body: comment.body,
+        createdAt: comment.createdAt,
+        updatedAt: comment.updatedAt,
+        author: toProfile(userById(db, comment.authorId), user),
+      })),
+  };
+}
+
+function addComment(request: FakeRequest) {
+  const { db, params } = request;
+  const user = requireUser(request);
+  const article = findArticle(db, params[0]);
+  const fields = requireFields(bodyField(request.req, "comment"), ["body"]);
+
+  const now = new Date().toISOString();
+  const comment = {
+    id: db.nextId++,
+    articleSlug: article.slug,
+    body: fields.body,
+    createdAt: now,
+    updatedAt: now,
+    authorId: user.id,
+  };
+  db.comments.push(comment);
+  return {
+    comment: {
+      id: comment.id,
+      body: comment.body,
+      createdAt: comment.createdAt,
+      updatedAt: comment.updatedAt,
+      author: toProfile(user, user),
+    },
+  };
+}
+
+function deleteComment(request: FakeRequest) {
+  const { db, params } = request;
+  const user = requireUser(request);
+  const article = findArticle(db, params[0]);
+  const comment = db.comments.find(
+    (c) => c.articleSlug === article.slug && String(c.id) === params[1],
+  );
+
+  if (!comment) {
+    throw new FakeApiError(404, { comment: "not found" });
+  }
+  if (comment.authorId !== user.id) {
+    throw new FakeApiError(403, { comment: "is not yours to delete" });
+  }
+  db.comments = db.comments.filter((c) => c !== comment);
+  return {};
+}
+
+// Tags
+
+function listTags({ db }: FakeRequest) {
+  const counts = new Map<string, number>();
+  db.articles
+    .flatMap((article) => article.tagList)
+    .forEach((tag) => counts.set(tag, (counts.get(tag) ?? 0) + 1));
+
+  return {
+    tags: [...counts.entries()]
+      .sort(([a, x], [b, y]) => y - x || a.localeCompare(b))
+      .map(([tag]) => tag),
+  };
+}
+
+// Helpers
+
+function authenticate(req: HttpRequest<unknown>, db: FakeDb): FakeUser | null {
+  const header = req.headers.get("Authorization");
+  if (!header) {
+    return null;
+  }
+
+  const payload = decodeToken(header.replace(/^Token /, ""));
+  const user = payload && db.users.find((u) => u.id === payload.id);
+  if (!user || payload.exp * 1000 < Date.now()) {
+    throw new FakeApiError(401, { token: "is invalid or expired" });
+  }
+  return user;
+}
+
+function requireUser({ user }: FakeRequest): FakeUser {
+  if (!user) {
+    throw new FakeApiError(401, { token: "is missing" });
+  }
+  return user;
+}
+
+// The object sent under the key, e.g. { "user": { ... } }; anything else
+// counts as empty
+function bodyField(
+  req: HttpRequest<unknown>,
+  key: string,
+): Record<string, unknown> {
+  const value = isRecord(req.body) ? req.body[key] : undefined;
+  return isRecord(value) ? value : {};
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function stringField(
+  fields: Record<string, unknown>,
+  name: string,
+): string | undefined {
+  const value = fields[name];
+  return typeof value === "string" ? value : undefined;
+}
+
+function requireFields<K extends string>(
+  fields: Record<string, unknown>,
+  names: K[],
+): Record<K, string> {
+  const errors: Errors["errors"] = {};
+  names
+    .filter((name) => !stringField(fields, name))
+    .forEach((name) => (errors[name] = "can't be blank"));
+
+  if (Object.keys(errors).length) {
+    throw new FakeApiError(422, errors);
+  }
+  return fields as Record<K, string>;
+}
+
+function assertUnique(
+  db: FakeDb,
+  fields: { email?: string; username?: string },
+  self?: FakeUser,
+) {
+  const others = db.users.filter((u) => u !== self);
+  const errors: Errors["errors"] = {};
+
+  if (others.some((u) => u.email === fields.email)) {
+    errors["email"] = "has already been taken";
+  }
+  if (others.some((u) => u.username === fields.username)) {
+    errors["username"] = "has already been taken";
+  }
+  if (Object.keys(errors).length) {
+    throw new FakeApiError(422, errors);
+  }
+}
+
+function findUser(db: FakeDb, username: string): FakeUser {
+  const user = db.users.find((u) => u.username === username);
+  if (!user) {
+    throw new FakeApiError(404, { profile: "not found" });
+  }
+  return user;
+}
+
+function userById(db: FakeDb, id: number): FakeUser {
+  return db.users.find((u) => u.id === id)!;
+}
+
+function findArticle(db: FakeDb, slug: string): FakeArticle {
+  const article = db.articles.find((a) => a.slug === slug);
+  if (!article) {
+    throw new FakeApiError(404, { article: "not found" });
+  }
+  return article;
+}
+
+function findOwnArticle(db: FakeDb, slug: string, user: FakeUser) {
+  const article = findArticle(db, slug);
+  if (article.authorId !== user.id) {
+    throw new FakeApiError(403, { article: "is not yours to change" });
+  }
+  return article;
+}
+
+function authorOf(db: FakeDb, article: FakeArticle): FakeUser {
+  return userById(db, article.authorId);
+}
+
+function paginate({ req, db, user }: FakeRequest, articles: FakeArticle[]) {
+  const limit = Number(req.params.get("limit") ?? 20);
+  const offset = Number(req.params.get("offset") ?? 0);
+
+  return {
+    articles: [...articles]
+      .sort(byNewest)
+      .slice(offset, offset + limit)
+      .map((article) => toArticle(db, article, user)),
+    articlesCount: articles.length,
+  };
+}
+
+function byNewest(a: { createdAt: string }, b: { createdAt: string }) {
+  return b.createdAt.localeCompare(a.createdAt);
+}
+
+function uniqueSlug(db: FakeDb, title: string): string {
+  const base =
+    title
+      .toLowerCase()
+      .normalize("NFKD")
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "") || "article";
+
+  let slug = base;
+  for (let n = 2; db.articles.some((a) => a.slug === slug); n++) {
+    slug = `${base}-${n}`;
+  }
+  return slug;
+}
+
+function normalizeTags(tagList: unknown): string[] {
+  return Array.isArray(tagList)
+    ? [...new Set(tagList.filter((tag) => typeof tag === "string"))]
+    : [];
+}
+
+function toUser(user: FakeUser) {
+  return {
+    email: user.email,
+    token: createToken(user),
+    username: user.username,
+    bio: user.bio,
+    image: user.image,
+  };
+}
+
+function toProfile(target: FakeUser, viewer: FakeUser | null) {
+  return {
+    username: target.username,
+    bio: target.bio,
+    image: target.image,
+    following: !!viewer && viewer.following.includes(target.id),
+  };
+}
+
+function toArticle(db: FakeDb, article: FakeArticle, viewer: FakeUser | null) {
+  return {
+    slug: article.slug,
+    title: article.title,
+    description: article.description,
+    body: article.body,
+    tagList: article.tagList,
+    createdAt: article.createdAt,
+    updatedAt: article.updatedAt,
+    favorited: !!viewer && article.favoritedBy.includes(viewer.id),
+    favoritesCount: article.favoritedBy.length,
+    author: toProfile(authorOf(db, article), viewer),
+  };
+}
+
+// Unsigned JWT-shaped tokens, so clients can read the claims as usual
+
+function createToken(user: FakeUser): string {
+  const now = Math.floor(Date.now() / 1000);
+  const header = { alg: "none", typ: "JWT" };
+  const payload = {
+    id: user.id,
+    username: user.username,
+    iat: now,
+    exp: now + TOKEN_TTL_SECONDS,
+  };
+  return `${encodeSegment(header)}.${encodeSegment(payload)}.fake`;
+}
+
+function decodeToken(token: string): { id: number; exp: number } | null {
+  try {
+    const segment = token.split(".")[1].replace(/-/g, "+").replace(/_/g, "/");
+    const bytes = Uint8Array.from(atob(segment), (c) => c.charCodeAt(0));
+    return JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    return null;
+  }
+}
+
+function encodeSegment(value: object): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(value));
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
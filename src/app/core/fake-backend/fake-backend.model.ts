@@ -0,0 +1,37 @@
+export interface FakeUser {
+  id: number;
+  email: string;
+  username: string;
+  password: string;
+  bio: string;
+  image: string;
+  following: number[];
+}
+
+export interface FakeArticle {
+  slug: string;
+  title: string;
+  description: string;
+  body: string;
+  tagList: string[];
+  createdAt: string;
+  updatedAt: string;
+  authorId: number;
+  favoritedBy: number[];
+}
+
+export interface FakeComment {
+  id: number;
+  articleSlug: string;
+  body: string;
+  createdAt: string;
+  updatedAt: string;
+  authorId: number;
+}
+
+export interface FakeDb {
+  users: FakeUser[];
+  articles: FakeArticle[];
+  comments: FakeComment[];
+  nextId: number;
+}
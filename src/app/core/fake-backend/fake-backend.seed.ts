@@ -0,0 +1,101 @@
+import { FakeDb } from "./fake-backend.model";
+
+// All seeded accounts use the password "password"
+export function createSeedDb(): FakeDb {
+  return {
+    users: [
+      {
+        id: 1,
+        email: "jake@example.com",
+        username: "jake",
+        password: "password",
+        bio: "I work at statefarm",
+        image: "",
+        following: [2],
+      },
+      {
+        id: 2,
+        email: "ada@example.com",
+        username: "ada",
+        password: "password",
+        bio: "Writing about Angular, RxJS and signals.",
+        image: "",
+        following: [],
+      },
+      {
+        id: 3,
+        email: "grace@example.com",
+        username: "grace",
+        password: "password",
+        bio: "",
+        image: "",
+        following: [1, 2],
+      },
+    ],
+    articles: [
+      {
+        slug: "how-to-train-your-dragon",
+        title: "How to train your dragon",
+        description: "Ever wonder how?",
+        body: "It takes a **Jacobian**.\n\n## Step one\n\nFind a dragon.\n\n## Step two\n\nTrain it.",
+        tagList: ["dragons", "training"],
+        createdAt: "2024-01-04T10:00:00.000Z",
+        updatedAt: "2024-01-04T10:00:00.000Z",
+        authorId: 1,
+        favoritedBy: [2, 3],
+      },
+      {
+        slug: "signals-in-practice",
+        title: "Signals in practice",
+        description: "What changes when state becomes a signal",
+        body: "Signals make change detection *explicit*.\n\n```ts\nconst count = signal(0);\ncount.update((n) => n + 1);\n```",
+        tagList: ["angular", "signals"],
+        createdAt: "2024-01-03T10:00:00.000Z",
+        updatedAt: "2024-01-03T12:30:00.000Z",
+        authorId: 2,
+        favoritedBy: [1],
+      },
+      {
+        slug: "testing-without-a-server",
+        title: "Testing without a server",
+        description: "Faking the backend at the HTTP layer",
+        body: "An interceptor can answer requests before they leave the browser.",
+        tagList: ["angular", "testing"],
+        createdAt: "2024-01-02T10:00:00.000Z",
+        updatedAt: "2024-01-02T10:00:00.000Z",
+        authorId: 2,
+        favoritedBy: [],
+      },
+      {
+        slug: "a-short-note-on-rxjs",
+        title: "A short note on RxJS",
+        description: "switchMap, mergeMap, concatMap and exhaustMap",
+        body: "Pick the flattening operator by what should happen to the *previous* inner subscription.",
+        tagList: ["rxjs"],
+        createdAt: "2024-01-01T10:00:00.000Z",
+        updatedAt: "2024-01-01T10:00:00.000Z",
+        authorId: 3,
+        favoritedBy: [1, 2],
+      },
+    ],
+    comments: [
+      {
+        id: 1,
+        articleSlug: "how-to-train-your-dragon",
+        body: "It takes a Jacobian",
+        createdAt: "2024-01-05T09:00:00.000Z",
+        updatedAt: "2024-01-05T09:00:00.000Z",
+        authorId: 2,
+      },
+      {
+        id: 2,
+        articleSlug: "signals-in-practice",
+        body: "Great write-up, thanks!",
+        createdAt: "2024-01-04T08:00:00.000Z",
+        updatedAt: "2024-01-04T08:00:00.000Z",
+        authorId: 3,
+      },
+    ],
+    nextId: 3,
+  };
+}
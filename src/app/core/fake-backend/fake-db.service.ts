@@ -0,0 +1,31 @@
+import { Injectable } from "@angular/core";
+import { FakeDb } from "./fake-backend.model";
+import { createSeedDb } from "./fake-backend.seed";
+
+const STORAGE_KEY = "fakeBackendDb";
+
+@Injectable({ providedIn: "root" })
+export class FakeDbService {
+  db: FakeDb = this.load();
+
+  save(): void {
+    window.localStorage[STORAGE_KEY] = JSON.stringify(this.db);
+  }
+
+  reset(): void {
+    this.db = createSeedDb();
+    this.save();
+  }
+
+  private load(): FakeDb {
+    try {
+      const stored = window.localStorage[STORAGE_KEY];
+      if (stored) {
+        return JSON.parse(stored);
+      }
+    } catch {
+      // Corrupt data falls back to the seed below
+    }
+    return createSeedDb();
+  }
+}
@@ -1,6 +1,10 @@
+import { inject } from "@angular/core";
 import { HttpInterceptorFn } from "@angular/common/http";
+import { ApiConfigService } from "../config/services/api-config.service";
 
 export const apiInterceptor: HttpInterceptorFn = (req, next) => {
-  const apiReq = req.clone({ url: `https://api.realworld.io/api${req.url}` });
+  const apiReq = req.clone({
+    url: inject(ApiConfigService).resolveUrl(req.url),
+  });
   return next(apiReq);
 };
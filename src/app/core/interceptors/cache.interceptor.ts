@@ -0,0 +1,58 @@
+import { inject } from "@angular/core";
+import {
+  HttpEvent,
+  HttpInterceptorFn,
+  HttpResponse,
+} from "@angular/common/http";
+import { concat, defer, EMPTY, of, ReplaySubject } from "rxjs";
+import { catchError, filter, tap } from "rxjs/operators";
+import { BYPASS_CACHE, HttpCacheService } from "../cache/http-cache.service";
+import { JwtService } from "../auth/services/jwt.service";
+
+// Must run before apiInterceptor: entries are keyed by the API path
+export const cacheInterceptor: HttpInterceptorFn = (req, next) => {
+  const cache = inject(HttpCacheService);
+  const policy = req.method === "GET" ? cache.policyFor(req.url) : null;
+  if (!policy) {
+    return next(req);
+  }
+
+  const key = req.urlWithParams;
+  const token = inject(JwtService).getToken();
+  const cached = req.context.get(BYPASS_CACHE) ? null : cache.get(key, token);
+  const fetch$ = next(req).pipe(
+    tap((event) => {
+      if (event instanceof HttpResponse && event.ok) {
+        cache.set(key, token, event);
+      }
+    }),
+  );
+
+  const age = cached ? Date.now() - cached.storedAt : Infinity;
+  if (!cached || age >= policy.ttlMs + policy.staleMs) {
+    return fetch$;
+  }
+  if (age < policy.ttlMs) {
+    return of(cached.response);
+  }
+
+  // Stale: answer from the cache now, and again only if the data changed
+  const cachedBody = JSON.stringify(cached.response.body);
+  return defer(() => {
+    // Started here rather than after the cached copy, so the cache is
+    // refreshed even when the caller only wants one value (e.g. a resolver)
+    const changed = new ReplaySubject<HttpEvent<unknown>>(1);
+    fetch$
+      .pipe(
+        filter(
+          (event) =>
+            event instanceof HttpResponse &&
+            JSON.stringify(event.body) !== cachedBody,
+        ),
+        // The cached copy was already delivered
+        catchError(() => EMPTY),
+      )
+      .subscribe(changed);
+    return concat(of(cached.response), changed);
+  });
+};
@@ -1,7 +1,104 @@
-import { HttpInterceptorFn } from "@angular/common/http";
+import { inject } from "@angular/core";
+import { HttpErrorResponse, HttpInterceptorFn } from "@angular/common/http";
+import { Router } from "@angular/router";
 import { throwError } from "rxjs";
 import { catchError } from "rxjs/operators";
+import { AppError, AppErrorKind } from "../models/app-error.model";
+import { Errors } from "../models/errors.model";
+import { JwtService } from "../auth/services/jwt.service";
+import { UserService } from "../auth/services/user.service";
+import { loginUrlTree } from "../auth/auth.guards";
+import { NotificationService } from "../notifications/notification.service";
+
+const MESSAGES: { [kind in AppErrorKind]: string } = {
+  network: "Could not reach the server. Check your connection and try again.",
+  unauthorized: "Your session has expired. Please sign in again.",
+  forbidden: "You are not allowed to do that.",
+  "not-found": "The requested resource was not found.",
+  validation: "Please correct the errors below.",
+  server: "The server ran into a problem. Please try again later.",
+  queued: "You are offline. The change will be sent when you reconnect.",
+};
 
 export const errorInterceptor: HttpInterceptorFn = (req, next) => {
-  return next(req).pipe(catchError((err) => throwError(() => err.error)));
+  const jwtService = inject(JwtService);
+  const userService = inject(UserService);
+  const router = inject(Router);
+  const notificationService = inject(NotificationService);
+
+  return next(req).pipe(
+    catchError((err) => {
+      if (!(err instanceof HttpErrorResponse)) {
+        return throwError(() => err);
+      }
+
+      const error = toAppError(err);
+      // A rejected token means the session is over. Only the first failing
+      // request handles it: purgeAuth removes the token for the others.
+      if (
+        error.kind === "unauthorized" &&
+        req.headers.has("Authorization") &&
+        jwtService.getToken()
+      ) {
+        userService.purgeAuth();
+        // During startup the initial navigation and its guards take over
+        if (router.navigated && !router.url.startsWith("/login")) {
+          notificationService.warning(error.message);
+          void router.navigateByUrl(loginUrlTree(router, router.url));
+        }
+      }
+      return throwError(() => error);
+    }),
+  );
 };
+
+export function toAppError(response: HttpErrorResponse): AppError {
+  const errors = fieldErrors(response.error);
+  return appError(errorKind(response.status, errors), response.status, errors);
+}
+
+export function appError(
+  kind: AppErrorKind,
+  status: number,
+  errors: Errors["errors"] = {},
+): AppError {
+  return { kind, status, message: MESSAGES[kind], errors };
+}
+
+function errorKind(status: number, errors: Errors["errors"]): AppErrorKind {
+  switch (status) {
+    case 0:
+      return "network";
+    case 401:
+      return "unauthorized";
+    case 403:
+      return "forbidden";
+    case 404:
+      return "not-found";
+    case 422:
+      return "validation";
+  }
+  if (status < 500 && Object.keys(errors).length) {
+    return "validation";
+  }
+  return "server";
+}
+
+// The API sends { errors: { field: ["message", ...] } }; anything else (an
+// HTML error page, a ProgressEvent) carries no field errors
+function fieldErrors(body: unknown): Errors["errors"] {
+  const errors =
+    typeof body === "object" && body !== null && "errors" in body
+      ? body.errors
+      : null;
+  if (typeof errors !== "object" || errors === null) {
+    return {};
+  }
+
+  return Object.fromEntries(
+    Object.entries(errors).map(([field, messages]) => [
+      field,
+      Array.isArray(messages) ? messages.join(", ") : String(messages),
+    ]),
+  );
+}
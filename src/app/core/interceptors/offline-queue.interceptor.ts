@@ -0,0 +1,45 @@
+import { inject } from "@angular/core";
+import { HttpInterceptorFn } from "@angular/common/http";
+import { throwError } from "rxjs";
+import { catchError } from "rxjs/operators";
+import {
+  canResend,
+  OfflineQueueService,
+  QUEUE_WHEN_OFFLINE,
+  REPLAYED,
+} from "../offline/offline-queue.service";
+import { appError } from "./error.interceptor";
+import { isAppError } from "../models/app-error.model";
+import { NotificationService } from "../notifications/notification.service";
+
+// Must run before apiInterceptor: queued requests keep their API path and
+// get the current endpoint and token when replayed
+export const offlineQueueInterceptor: HttpInterceptorFn = (req, next) => {
+  const label = req.context.get(QUEUE_WHEN_OFFLINE);
+  if (!label || req.context.get(REPLAYED)) {
+    return next(req);
+  }
+
+  const queue = inject(OfflineQueueService);
+  const notificationService = inject(NotificationService);
+  const enqueue = () => {
+    if (!queue.enqueue(req, label)) {
+      return throwError(() => appError("network", 0));
+    }
+    const error = appError("queued", 0);
+    notificationService.info(error.message);
+    return throwError(() => error);
+  };
+
+  // Keep the order: nothing may overtake a change that is still queued
+  if (!queue.isOnline || queue.hasPending) {
+    return enqueue();
+  }
+  return next(req).pipe(
+    catchError((error) =>
+      isAppError(error) && error.kind === "network" && canResend(req.method)
+        ? enqueue()
+        : throwError(() => error),
+    ),
+  );
+};
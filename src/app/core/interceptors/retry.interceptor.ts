@@ -0,0 +1,32 @@
+import { HttpErrorResponse, HttpInterceptorFn } from "@angular/common/http";
+import { throwError, timer } from "rxjs";
+import { retry } from "rxjs/operators";
+
+const MAX_RETRIES = 3;
+const BASE_DELAY_MS = 500;
+
+// Retries GETs, which are safe to repeat, after network errors and server
+// failures, waiting 0.5s, 1s, then 2s. Mutations are left to the offline
+// queue, which only resends those that cannot be saved twice.
+export const retryInterceptor: HttpInterceptorFn = (req, next) => {
+  if (req.method !== "GET") {
+    return next(req);
+  }
+
+  return next(req).pipe(
+    retry({
+      count: MAX_RETRIES,
+      delay: (error, attempt) =>
+        isTransient(error) && navigator.onLine
+          ? timer(BASE_DELAY_MS * 2 ** (attempt - 1))
+          : throwError(() => error),
+    }),
+  );
+};
+
+function isTransient(error: unknown): boolean {
+  return (
+    error instanceof HttpErrorResponse &&
+    (error.status === 0 || error.status >= 500)
+  );
+}
@@ -0,0 +1,44 @@
+import { isDevMode } from "@angular/core";
+import { HttpInterceptorFn, HttpResponse } from "@angular/common/http";
+import { map } from "rxjs/operators";
+import { responseSchema } from "../validation/api-schemas";
+import { INVALID, SchemaIssue } from "../validation/schema";
+import { appError } from "./error.interceptor";
+
+// Checks responses against the models before they reach a service. Missing
+// or mistyped fields get a default and invalid list items are dropped; a
+// response that cannot be repaired fails like a server error.
+export const validationInterceptor: HttpInterceptorFn = (req, next) => {
+  const path = req.url.split("?")[0];
+  const schema = responseSchema(req.method, path);
+  if (!schema) {
+    return next(req);
+  }
+
+  return next(req).pipe(
+    map((event) => {
+      if (!(event instanceof HttpResponse) || event.body === null) {
+        return event;
+      }
+
+      const issues: SchemaIssue[] = [];
+      const body = schema(event.body, "", issues);
+      if (issues.length && isDevMode()) {
+        reportIssues(`${req.method} ${path}`, issues);
+      }
+      if (body === INVALID) {
+        throw appError("server", event.status);
+      }
+      return issues.length ? event.clone({ body }) : event;
+    }),
+  );
+};
+
+function reportIssues(endpoint: string, issues: SchemaIssue[]): void {
+  console.warn(
+    `API contract violation in ${endpoint}:\n` +
+      issues
+        .map(({ path, problem }) => `  ${path || "(body)"}: ${problem}`)
+        .join("\n"),
+  );
+}
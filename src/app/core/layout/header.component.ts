@@ -1,14 +1,23 @@
-import { Component, inject } from "@angular/core";
+import { ChangeDetectionStrategy, Component, inject } from "@angular/core";
 import { UserService } from "../auth/services/user.service";
 import { RouterLink, RouterLinkActive } from "@angular/router";
 import { AsyncPipe } from "@angular/common";
 import { IfAuthenticatedDirective } from "../auth/if-authenticated.directive";
+import { OfflineQueueService } from "../offline/offline-queue.service";
+import { QueuedRequest } from "../offline/queued-request.model";
 
 @Component({
   selector: "app-layout-header",
   templateUrl: "./header.component.html",
+  changeDetection: ChangeDetectionStrategy.OnPush,
   imports: [RouterLinkActive, RouterLink, AsyncPipe, IfAuthenticatedDirective],
 })
 export class HeaderComponent {
-  currentUser$ = inject(UserService).currentUser;
+  currentUser = inject(UserService).currentUser;
+  online$ = inject(OfflineQueueService).online;
+  pending$ = inject(OfflineQueueService).pending;
+
+  pendingTitle(pending: QueuedRequest[]): string {
+    return `Waiting to sync: ${pending.map((item) => item.label).join(", ")}`;
+  }
 }
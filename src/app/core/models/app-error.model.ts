@@ -0,0 +1,28 @@
+import { Errors } from "./errors.model";
+
+export type AppErrorKind =
+  | "network"
+  | "unauthorized"
+  | "forbidden"
+  | "not-found"
+  | "validation"
+  | "server"
+  // Sent while offline and held by OfflineQueueService until reconnecting
+  | "queued";
+
+// Failed API requests reach components as an AppError. It extends Errors so
+// field errors from the API still work with ListErrorsComponent.
+export interface AppError extends Errors {
+  kind: AppErrorKind;
+  status: number;
+  message: string;
+}
+
+export function isAppError(error: unknown): error is AppError {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    "kind" in error &&
+    "message" in error
+  );
+}
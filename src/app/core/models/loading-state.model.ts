@@ -1,5 +1,13 @@
-export enum LoadingState {
-  NOT_LOADED = "NOT_LOADED",
-  LOADING = "LOADING",
-  LOADED = "LOADED",
-}
+export type LoadingState =
+  | { status: "not-loaded" }
+  | { status: "loading" }
+  | { status: "loaded" }
+  // Usually an AppError, see error.interceptor.ts
+  | { status: "error"; error: unknown };
+
+export const LoadingState = {
+  NOT_LOADED: { status: "not-loaded" } as LoadingState,
+  LOADING: { status: "loading" } as LoadingState,
+  LOADED: { status: "loaded" } as LoadingState,
+  error: (error: unknown): LoadingState => ({ status: "error", error }),
+};
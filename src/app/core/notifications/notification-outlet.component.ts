@@ -0,0 +1,56 @@
+import { ChangeDetectionStrategy, Component, inject } from "@angular/core";
+import { AsyncPipe, NgClass } from "@angular/common";
+import { NotificationService } from "./notification.service";
+
+@Component({
+  selector: "app-notification-outlet",
+  template: `
+    <div class="notifications" aria-live="polite">
+      @for (notification of notifications$ | async; track notification.id) {
+        <div
+          class="alert"
+          role="status"
+          [ngClass]="{
+            'alert-success': notification.kind === 'success',
+            'alert-info': notification.kind === 'info',
+            'alert-warning': notification.kind === 'warning',
+            'alert-danger': notification.kind === 'error'
+          }"
+        >
+          <button
+            type="button"
+            class="close"
+            aria-label="Dismiss"
+            (click)="notificationService.dismiss(notification.id)"
+          >
+            &times;
+          </button>
+          {{ notification.message }}
+        </div>
+      }
+    </div>
+  `,
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  imports: [AsyncPipe, NgClass],
+  styles: `
+    .notifications {
+      position: fixed;
+      right: 1rem;
+      bottom: 1rem;
+      z-index: 1000;
+      width: 22rem;
+      max-width: calc(100% - 2rem);
+    }
+    .close {
+      margin-left: 0.5rem;
+      background: none;
+      border: none;
+      float: right;
+      cursor: pointer;
+    }
+  `,
+})
+export class NotificationOutletComponent {
+  notificationService = inject(NotificationService);
+  notifications$ = this.notificationService.notifications;
+}
@@ -0,0 +1,7 @@
+export type NotificationKind = "success" | "info" | "warning" | "error";
+
+export interface AppNotification {
+  id: number;
+  kind: NotificationKind;
+  message: string;
+}
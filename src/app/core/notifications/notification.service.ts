@@ -0,0 +1,61 @@
+import { Injectable } from "@angular/core";
+import { BehaviorSubject } from "rxjs";
+import { isAppError } from "../models/app-error.model";
+import { AppNotification, NotificationKind } from "./notification.model";
+
+const DURATION_MS: { [kind in NotificationKind]: number } = {
+  success: 3000,
+  info: 5000,
+  warning: 8000,
+  error: 8000,
+};
+
+@Injectable({ providedIn: "root" })
+export class NotificationService {
+  private notificationsSubject = new BehaviorSubject<AppNotification[]>([]);
+  public notifications = this.notificationsSubject.asObservable();
+  private nextId = 1;
+
+  success(message: string): number {
+    return this.show("success", message);
+  }
+
+  info(message: string): number {
+    return this.show("info", message);
+  }
+
+  warning(message: string): number {
+    return this.show("warning", message);
+  }
+
+  // Reports a failed action, with the reason when the error is an AppError
+  error(message: string, error?: unknown): number {
+    return this.show(
+      "error",
+      isAppError(error) ? `${message} ${error.message}` : message,
+    );
+  }
+
+  show(
+    kind: NotificationKind,
+    message: string,
+    durationMs = DURATION_MS[kind],
+  ): number {
+    const notification = { id: this.nextId++, kind, message };
+    this.notificationsSubject.next([
+      ...this.notificationsSubject.value,
+      notification,
+    ]);
+
+    if (durationMs > 0) {
+      setTimeout(() => this.dismiss(notification.id), durationMs);
+    }
+    return notification.id;
+  }
+
+  dismiss(id: number): void {
+    this.notificationsSubject.next(
+      this.notificationsSubject.value.filter((item) => item.id !== id),
+    );
+  }
+}
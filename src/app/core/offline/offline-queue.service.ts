@@ -0,0 +1,223 @@
+import { Injectable } from "@angular/core";
+import {
+  HttpClient,
+  HttpContext,
+  HttpContextToken,
+  HttpRequest,
+} from "@angular/common/http";
+import { takeUntilDestroyed } from "@angular/core/rxjs-interop";
+import { BehaviorSubject, combineLatest, fromEvent, merge } from "rxjs";
+import { map } from "rxjs/operators";
+import { UserService } from "../auth/services/user.service";
+import { HttpCacheService } from "../cache/http-cache.service";
+import { NotificationService } from "../notifications/notification.service";
+import { isAppError } from "../models/app-error.model";
+import { QueuedRequest } from "./queued-request.model";
+
+// Set on a mutation to queue it while offline; the value labels the change
+export const QUEUE_WHEN_OFFLINE = new HttpContextToken<string | null>(
+  () => null,
+);
+// Marks requests sent by the queue itself
+export const REPLAYED = new HttpContextToken<boolean>(() => false);
+
+const STORAGE_KEY = "offlineQueue";
+// A replay that fails while online (e.g. the API is down) is retried after
+// a delay that doubles each time, up to the maximum
+const RETRY_MIN_MS = 2000;
+const RETRY_MAX_MS = 60000;
+
+// The same request sent twice has the same effect as once
+const IDEMPOTENT_METHODS = ["PUT", "DELETE"];
+
+export function isQueued(error: unknown): boolean {
+  return isAppError(error) && error.kind === "queued";
+}
+
+// A request that failed with a network error may still have reached the
+// server, so sending it again could save it twice (e.g. a comment). Only
+// idempotent ones are, unless the browser is offline and it cannot have
+// left.
+export function canResend(method: string): boolean {
+  return IDEMPOTENT_METHODS.includes(method) || !navigator.onLine;
+}
+
+@Injectable({ providedIn: "root" })
+export class OfflineQueueService {
+  private onlineSubject = new BehaviorSubject<boolean>(navigator.onLine);
+  public online = this.onlineSubject.asObservable();
+
+  private queueSubject = new BehaviorSubject<QueuedRequest[]>(this.read());
+  // Requests queued by the signed in user
+  public pending = combineLatest([
+    this.queueSubject,
+    this.userService.currentUser$,
+  ]).pipe(
+    map(([queue, user]) =>
+      queue.filter((item) => item.username === user?.username),
+    ),
+  );
+
+  private username: string | null = null;
+  private replaying = false;
+  private replayed = 0;
+  private retryDelay = RETRY_MIN_MS;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private readonly http: HttpClient,
+    private readonly userService: UserService,
+    private readonly cache: HttpCacheService,
+    private readonly notificationService: NotificationService,
+  ) {
+    merge(
+      fromEvent(window, "online").pipe(map(() => true)),
+      fromEvent(window, "offline").pipe(map(() => false)),
+    )
+      .pipe(takeUntilDestroyed())
+      .subscribe((online) => this.onlineSubject.next(online));
+
+    combineLatest([this.online, this.userService.currentUser$])
+      .pipe(takeUntilDestroyed())
+      .subscribe(([online, user]) => {
+        this.username = user?.username ?? null;
+        if (online) {
+          this.replay();
+        }
+      });
+  }
+
+  get isOnline(): boolean {
+    return this.onlineSubject.value;
+  }
+
+  // Requests queued by the current user, which later ones must wait for
+  get hasPending(): boolean {
+    return this.queueSubject.value.some(
+      (item) => item.username === this.username,
+    );
+  }
+
+  // Returns false when nobody is signed in to replay it for
+  enqueue(req: HttpRequest<unknown>, label: string): boolean {
+    if (!this.username) {
+      return false;
+    }
+
+    this.write([
+      ...this.queueSubject.value,
+      {
+        id: `${Date.now()}-${Math.random().toString(36).slice(2)}`,
+        method: req.method,
+        url: req.urlWithParams,
+        body: req.body,
+        label,
+        username: this.username,
+        queuedAt: new Date().toISOString(),
+      },
+    ]);
+    if (this.isOnline) {
+      this.replay();
+    }
+    return true;
+  }
+
+  // Sends the current user's requests one at a time, in the order queued
+  private replay(): void {
+    const next = this.queueSubject.value.find(
+      (item) => item.username === this.username,
+    );
+    if (this.replaying || !next) {
+      return;
+    }
+
+    this.cancelRetry();
+    this.replaying = true;
+    this.http
+      .request(next.method, next.url, {
+        body: next.body,
+        context: new HttpContext().set(REPLAYED, true),
+      })
+      .subscribe({
+        next: () => this.replayed++,
+        complete: () => this.finish(next),
+        error: (error) => {
+          // Offline again, or signed out: keep it for the next attempt
+          if (
+            isAppError(error) &&
+            ((error.kind === "network" && canResend(next.method)) ||
+              error.kind === "unauthorized")
+          ) {
+            this.replaying = false;
+            // Still online, so nothing else would start that attempt
+            if (error.kind === "network" && this.isOnline) {
+              this.scheduleRetry();
+            }
+            return;
+          }
+          this.notificationService.error(
+            isAppError(error) && error.kind === "network"
+              ? `Lost the connection while syncing ${next.label}. Check whether it was saved.`
+              : `Could not sync ${next.label}.`,
+            error,
+          );
+          this.finish(next);
+        },
+      });
+  }
+
+  private finish(item: QueuedRequest): void {
+    this.write(this.queueSubject.value.filter(({ id }) => id !== item.id));
+    this.replaying = false;
+    this.retryDelay = RETRY_MIN_MS;
+
+    if (this.hasPending) {
+      this.replay();
+    } else if (this.replayed) {
+      // Replayed requests skipped the services that invalidate the cache
+      this.cache.clear();
+      this.notificationService.success(
+        this.replayed === 1
+          ? "Your offline change has been synced."
+          : `Your ${this.replayed} offline changes have been synced.`,
+      );
+      this.replayed = 0;
+    }
+  }
+
+  private scheduleRetry(): void {
+    this.cancelRetry();
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      // Once offline, the online event replays instead
+      if (this.isOnline) {
+        this.replay();
+      }
+    }, this.retryDelay);
+    this.retryDelay = Math.min(this.retryDelay * 2, RETRY_MAX_MS);
+  }
+
+  private cancelRetry(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  private read(): QueuedRequest[] {
+    try {
+      return JSON.parse(window.localStorage[STORAGE_KEY] ?? "[]");
+    } catch {
+      return [];
+    }
+  }
+
+  private write(queue: QueuedRequest[]): void {
+    if (queue.length) {
+      window.localStorage[STORAGE_KEY] = JSON.stringify(queue);
+    } else {
+      window.localStorage.removeItem(STORAGE_KEY);
+    }
+    this.queueSubject.next(queue);
+  }
+}
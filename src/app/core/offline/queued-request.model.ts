@@ -0,0 +1,12 @@
+export interface QueuedRequest {
+  id: string;
+  method: string;
+  // Relative API path, resolved against the API config when replayed
+  url: string;
+  body: unknown;
+  // Describes the change to the user, e.g. "favorite my-article"
+  label: string;
+  // Replayed only with this user signed in
+  username: string;
+  queuedAt: string;
+}
@@ -0,0 +1,138 @@
+import {
+  afterEveryRender,
+  EnvironmentProviders,
+  inject,
+  isDevMode,
+  NgZone,
+  provideAppInitializer,
+} from "@angular/core";
+
+// Dev builds only (see src/environments): open the home feed with
+// ?cdBenchmark to count change detection cycles while a scripted session
+// runs. The results are logged and written to <body data-cd-benchmark="...">
+// for headless runs, see "Measuring change detection" in the README.
+
+// Time for requests and timers started by a step to finish
+const SETTLE_MS = 1000;
+const REPEAT = 30;
+// A step waiting for content gives up after this long
+const UNTIL_TIMEOUT_MS = 10000;
+
+interface Step {
+  name: string;
+  run: () => Promise<void>;
+}
+
+const STEPS: Step[] = [
+  { name: "load feed", run: () => until(feedLoaded) },
+  { name: "idle 2s", run: () => wait(2000) },
+  {
+    name: `scroll x${REPEAT}`,
+    run: () =>
+      repeat(() => {
+        window.scrollBy(0, 40);
+        window.dispatchEvent(new Event("scroll"));
+      }),
+  },
+  {
+    name: `mousemove x${REPEAT}`,
+    run: () =>
+      repeat(
+        () =>
+          document
+            .querySelector(".article-preview")
+            ?.dispatchEvent(new MouseEvent("mousemove", { bubbles: true })),
+      ),
+  },
+  {
+    name: "hover each preview",
+    run: async () => {
+      document
+        .querySelectorAll(".preview-link")
+        .forEach((link) => link.dispatchEvent(new MouseEvent("mouseenter")));
+    },
+  },
+  {
+    name: "go to page 2",
+    run: () =>
+      click("app-pagination .page-link", "2").then(() => until(feedLoaded)),
+  },
+  {
+    name: "filter by a tag",
+    run: () => click(".sidebar .tag-pill").then(() => until(feedLoaded)),
+  },
+];
+
+export function provideChangeDetectionBenchmark(): EnvironmentProviders {
+  return provideAppInitializer(() => {
+    if (
+      !isDevMode() ||
+      !new URLSearchParams(location.search).has("cdBenchmark")
+    ) {
+      return;
+    }
+
+    let cycles = 0;
+    afterEveryRender(() => cycles++);
+    // With zone.js its own timers would cause change detection; without it
+    // this is a no-op, as timers never do
+    inject(NgZone).runOutsideAngular(async () => {
+      const results: { [step: string]: number | string } = {};
+      for (const step of STEPS) {
+        const before = cycles;
+        try {
+          await step.run();
+          await wait(SETTLE_MS);
+          results[step.name] = cycles - before;
+        } catch (error) {
+          results[step.name] = String(error);
+        }
+      }
+      results["total"] = cycles;
+
+      console.table(results);
+      document.body.dataset["cdBenchmark"] = JSON.stringify(results);
+    });
+  });
+}
+
+function feedLoaded(): boolean {
+  return (
+    !!document.querySelector("app-article-preview") &&
+    !document.querySelector("app-article-list app-skeleton")
+  );
+}
+
+function wait(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function until(condition: () => boolean): Promise<void> {
+  const deadline = Date.now() + UNTIL_TIMEOUT_MS;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error(`timed out after ${UNTIL_TIMEOUT_MS} ms`);
+    }
+    await wait(50);
+  }
+}
+
+async function repeat(action: () => void): Promise<void> {
+  for (let i = 0; i < REPEAT; i++) {
+    action();
+    await wait(16);
+  }
+}
+
+async function click(selector: string, text?: string): Promise<void> {
+  const element = Array.from(
+    document.querySelectorAll<HTMLElement>(selector),
+  ).find(
+    (candidate) => text === undefined || candidate.textContent?.trim() === text,
+  );
+  if (!element) {
+    throw new Error(`nothing to click: ${selector} ${text ?? ""}`.trim());
+  }
+  element.click();
+  await wait(50);
+}
@@ -0,0 +1,28 @@
+import { Injectable, Injector } from "@angular/core";
+import { PreloadingStrategy, Route, RouterPreloader } from "@angular/router";
+import { Observable, of } from "rxjs";
+
+// Lazy routes marked with data: { prefetch: "name" } load their chunk once
+// something asks for that name, e.g. hovering a link to the page
+@Injectable({ providedIn: "root" })
+export class PrefetchPreloadingStrategy implements PreloadingStrategy {
+  private names = new Set<string>();
+
+  constructor(private readonly injector: Injector) {}
+
+  // Must complete right away: the router runs one preload pass after
+  // another, so a pass left waiting would hold up all later ones
+  preload(route: Route, load: () => Observable<unknown>): Observable<unknown> {
+    const name = route.data?.["prefetch"];
+    return typeof name === "string" && this.names.has(name) ? load() : of(null);
+  }
+
+  request(name: string): void {
+    if (!this.names.has(name)) {
+      this.names.add(name);
+      // A new pass picks up the routes that were waiting for this name.
+      // Resolved here because RouterPreloader itself injects this strategy.
+      this.injector.get(RouterPreloader).preload().subscribe();
+    }
+  }
+}
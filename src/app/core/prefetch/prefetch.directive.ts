@@ -0,0 +1,63 @@
+import { Directive, HostListener, inject, input } from "@angular/core";
+import { InViewportDirective } from "../../shared/directives/in-viewport.directive";
+import { PrefetchService } from "./prefetch.service";
+import { ArticlesService } from "../../features/article/services/articles.service";
+import { CommentsService } from "../../features/article/services/comments.service";
+import { ProfileService } from "../../features/profile/services/profile.service";
+
+// On a link to an article or a profile: scrolling it into view preloads the
+// page's code, hovering or focusing it also fetches the page's data.
+@Directive({
+  selector: "[prefetchArticle],[prefetchProfile]",
+  hostDirectives: [InViewportDirective],
+})
+export class PrefetchDirective {
+  // Slug of the linked article
+  prefetchArticle = input<string | null>(null);
+  // Username of the linked profile
+  prefetchProfile = input<string | null>(null);
+
+  constructor(
+    private readonly prefetchService: PrefetchService,
+    private readonly articlesService: ArticlesService,
+    private readonly commentsService: CommentsService,
+    private readonly profileService: ProfileService,
+  ) {
+    inject(InViewportDirective, { self: true }).inViewport.subscribe(() =>
+      this.preloadRoute(),
+    );
+  }
+
+  @HostListener("mouseenter")
+  @HostListener("focusin")
+  @HostListener("touchstart")
+  prefetch(): void {
+    this.preloadRoute();
+
+    const slug = this.prefetchArticle();
+    if (slug) {
+      this.prefetchService.prefetch(`article ${slug}`, () =>
+        this.articlesService.get(slug),
+      );
+      this.prefetchService.prefetch(`comments ${slug}`, () =>
+        this.commentsService.getAll(slug),
+      );
+    }
+
+    const username = this.prefetchProfile();
+    if (username) {
+      this.prefetchService.prefetch(`profile ${username}`, () =>
+        this.profileService.get(username),
+      );
+    }
+  }
+
+  private preloadRoute(): void {
+    if (this.prefetchArticle()) {
+      this.prefetchService.preloadRoute("article");
+    }
+    if (this.prefetchProfile()) {
+      this.prefetchService.preloadRoute("profile");
+    }
+  }
+}
@@ -0,0 +1,72 @@
+import { Injectable } from "@angular/core";
+import { EMPTY, Observable, Subject } from "rxjs";
+import { catchError, finalize, mergeMap } from "rxjs/operators";
+import { PrefetchPreloadingStrategy } from "./prefetch-preloading.strategy";
+
+// Prefetches beyond this wait, so they never crowd out the page's own requests
+const MAX_CONCURRENT = 2;
+
+const SLOW_CONNECTIONS = ["slow-2g", "2g"];
+
+// Not in every browser's typings yet
+interface NetworkInformation {
+  saveData?: boolean;
+  effectiveType?: string;
+}
+
+interface PrefetchTask {
+  key: string;
+  task: () => Observable<unknown>;
+}
+
+// Loads data and route chunks the user is likely to need next. Data goes
+// through the services, so it lands in the HTTP cache and the entity store
+// where the destination page finds it.
+@Injectable({ providedIn: "root" })
+export class PrefetchService {
+  private tasks = new Subject<PrefetchTask>();
+  // Queued or running, so hovering again does not add it twice
+  private pending = new Set<string>();
+
+  constructor(private readonly preloading: PrefetchPreloadingStrategy) {
+    this.tasks
+      .pipe(
+        mergeMap(
+          ({ key, task }) =>
+            task().pipe(
+              // Nothing waits for a prefetch, the page loads it again
+              catchError(() => EMPTY),
+              finalize(() => this.pending.delete(key)),
+            ),
+          MAX_CONCURRENT,
+        ),
+      )
+      .subscribe();
+  }
+
+  // Off when the user asked to save data or the connection is slow
+  get enabled(): boolean {
+    const connection = (
+      navigator as Navigator & { connection?: NetworkInformation }
+    ).connection;
+    return (
+      !connection?.saveData &&
+      !SLOW_CONNECTIONS.includes(connection?.effectiveType ?? "")
+    );
+  }
+
+  prefetch(key: string, task: () => Observable<unknown>): void {
+    if (!this.enabled || this.pending.has(key)) {
+      return;
+    }
+    this.pending.add(key);
+    this.tasks.next({ key, task });
+  }
+
+  // See the "prefetch" route data in app.routes.ts
+  preloadRoute(name: string): void {
+    if (this.enabled) {
+      this.preloading.request(name);
+    }
+  }
+}
@@ -0,0 +1,119 @@
+import { Injectable, signal } from "@angular/core";
+import { Article } from "../../features/article/models/article.model";
+import { Comment } from "../../features/article/models/comment.model";
+import { Profile } from "../../features/profile/models/profile.model";
+
+// Entities keep a reference to their author, so a profile is stored once
+type StoredArticle = Omit<Article, "author"> & { author: string };
+type StoredComment = Omit<Comment, "author"> & { author: string };
+
+// Normalized copy of every article, profile and comment the API returned.
+// Services write into it; components read through computed() so one change
+// shows up everywhere the entity is on screen.
+@Injectable({ providedIn: "root" })
+export class EntityStoreService {
+  private articles = signal<{ [slug: string]: StoredArticle }>({});
+  private profiles = signal<{ [username: string]: Profile }>({});
+  private comments = signal<{ [id: string]: StoredComment }>({});
+
+  // Each call builds a new object: read it inside computed(), not a template
+  article(slug: string): Article | null {
+    const article = this.articles()[slug];
+    return article ? { ...article, author: this.author(article.author) } : null;
+  }
+
+  profile(username: string): Profile | null {
+    return this.profiles()[username] ?? null;
+  }
+
+  comment(id: string): Comment | null {
+    const comment = this.comments()[id];
+    return comment ? { ...comment, author: this.author(comment.author) } : null;
+  }
+
+  upsertArticles(articles: Article[]): void {
+    this.upsertProfiles(articles.map((article) => article.author));
+    this.articles.update((stored) => ({
+      ...stored,
+      ...Object.fromEntries(
+        articles.map((article) => [
+          article.slug,
+          { ...article, author: article.author.username },
+        ]),
+      ),
+    }));
+  }
+
+  upsertProfiles(profiles: Profile[]): void {
+    this.profiles.update((stored) => ({
+      ...stored,
+      ...Object.fromEntries(
+        profiles.map((profile) => [profile.username, { ...profile }]),
+      ),
+    }));
+  }
+
+  upsertComments(comments: Comment[]): void {
+    this.upsertProfiles(comments.map((comment) => comment.author));
+    this.comments.update((stored) => ({
+      ...stored,
+      ...Object.fromEntries(
+        comments.map((comment) => [
+          comment.id,
+          { ...comment, author: comment.author.username },
+        ]),
+      ),
+    }));
+  }
+
+  // Changes fields of a stored article; unknown slugs are ignored
+  patchArticle(
+    slug: string,
+    changes: Partial<Omit<Article, "slug" | "author">>,
+  ): void {
+    this.articles.update((stored) =>
+      stored[slug]
+        ? { ...stored, [slug]: { ...stored[slug], ...changes } }
+        : stored,
+    );
+  }
+
+  // Changes fields of a stored profile; unknown usernames are ignored
+  patchProfile(
+    username: string,
+    changes: Partial<Omit<Profile, "username">>,
+  ): void {
+    this.profiles.update((stored) =>
+      stored[username]
+        ? { ...stored, [username]: { ...stored[username], ...changes } }
+        : stored,
+    );
+  }
+
+  removeArticle(slug: string): void {
+    this.articles.update(({ [slug]: _, ...stored }) => stored);
+  }
+
+  removeComment(id: string): void {
+    this.comments.update(({ [id]: _, ...stored }) => stored);
+  }
+
+  // Drops everything, e.g. the favorited and following flags of a user who
+  // signed out
+  clear(): void {
+    this.articles.set({});
+    this.profiles.set({});
+    this.comments.set({});
+  }
+
+  private author(username: string): Profile {
+    return (
+      this.profiles()[username] ?? {
+        username,
+        bio: "",
+        image: "",
+        following: false,
+      }
+    );
+  }
+}
@@ -0,0 +1,113 @@
+import {
+  createEnvironmentInjector,
+  EnvironmentInjector,
+  Injector,
+  runInInjectionContext,
+} from "@angular/core";
+import { Observable, Subject } from "rxjs";
+import { NotificationService } from "../notifications/notification.service";
+import { OptimisticToggle } from "./optimistic-toggle";
+
+interface Item {
+  on: boolean;
+  count: number;
+}
+
+describe("OptimisticToggle", () => {
+  let injector: EnvironmentInjector;
+  let toggle: OptimisticToggle<Item>;
+  let stored: Item[];
+  let responses: Subject<Item>[];
+  let sent: boolean[];
+
+  beforeEach(() => {
+    jasmine.clock().install();
+    jasmine.clock().mockDate();
+    stored = [];
+    responses = [];
+    sent = [];
+    injector = createEnvironmentInjector(
+      [
+        {
+          provide: NotificationService,
+          useValue: jasmine.createSpyObj("NotificationService", ["error"]),
+        },
+      ],
+      Injector.NULL as EnvironmentInjector,
+    );
+    toggle = runInInjectionContext(
+      injector,
+      () =>
+        new OptimisticToggle<Item>({
+          isOn: (item) => item.on,
+          withState: (item, on) => ({
+            on,
+            count: item.count + (on ? 1 : -1),
+          }),
+          send: (_, on): Observable<Item> => {
+            sent.push(on);
+            const response = new Subject<Item>();
+            responses.push(response);
+            return response;
+          },
+          store: (item) => stored.push(item),
+          failureMessage: () => "failed",
+        }),
+    );
+  });
+
+  afterEach(() => {
+    injector.destroy();
+    jasmine.clock().uninstall();
+  });
+
+  const respond = (index: number, item: Item): void => {
+    responses[index].next(item);
+    responses[index].complete();
+  };
+
+  it("does not store a response that a newer click has replaced", () => {
+    toggle.toggle({ on: false, count: 0 });
+    jasmine.clock().tick(300);
+    toggle.toggle({ on: true, count: 1 });
+    respond(0, { on: true, count: 1 });
+
+    expect(stored).toEqual([
+      { on: true, count: 1 },
+      { on: false, count: 0 },
+    ]);
+
+    jasmine.clock().tick(300);
+    respond(1, { on: false, count: 0 });
+
+    expect(sent).toEqual([true, false]);
+    expect(stored[stored.length - 1]).toEqual({ on: false, count: 0 });
+  });
+
+  it("stores the response to the last click", () => {
+    toggle.toggle({ on: false, count: 4 });
+    jasmine.clock().tick(300);
+    respond(0, { on: true, count: 7 });
+
+    expect(stored).toEqual([
+      { on: true, count: 5 },
+      { on: true, count: 7 },
+    ]);
+  });
+
+  it("merges clicks within the debounce window", () => {
+    toggle.toggle({ on: false, count: 0 });
+    toggle.toggle({ on: true, count: 1 });
+    jasmine.clock().tick(300);
+
+    expect(sent).toEqual([]);
+  });
+
+  it("restores the confirmed state when a request fails", () => {
+    toggle.toggle({ on: false, count: 2 });
+    jasmine.clock().tick(300);
+    responses[0].error(new Error("offline"));
+
+    expect(stored[stored.length - 1]).toEqual({ on: false, count: 2 });
+  });
+});
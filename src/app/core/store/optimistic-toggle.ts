@@ -0,0 +1,114 @@
+import { DestroyRef, inject } from "@angular/core";
+import { defer, EMPTY, Observable, Subject } from "rxjs";
+import {
+  catchError,
+  concatMap,
+  debounceTime,
+  finalize,
+  ignoreElements,
+  tap,
+} from "rxjs/operators";
+import { NotificationService } from "../notifications/notification.service";
+import { isQueued } from "../offline/offline-queue.service";
+
+// Clicks within this window are merged into one request
+const DEBOUNCE_MS = 300;
+
+export interface OptimisticToggleOptions<T> {
+  isOn(entity: T): boolean;
+  // The entity with the flag set to on, and anything derived from it
+  // (e.g. a count) adjusted
+  withState(entity: T, on: boolean): T;
+  // Sends the change and returns the server's copy. It must not write to
+  // the entity store: a newer click may have replaced it.
+  send(entity: T, on: boolean): Observable<T>;
+  store(entity: T): void;
+  failureMessage(entity: T, on: boolean): string;
+}
+
+interface Intent {
+  on: boolean;
+  click: number;
+}
+
+// A flag of an entity (e.g. favorited, following) that a button flips
+// before the server confirms it. Clicks in quick succession are merged, and
+// requests go out one at a time. Must be created in an injection context.
+export class OptimisticToggle<T> {
+  private readonly notificationService = inject(NotificationService);
+  private readonly shown = new Subject<T>();
+  // Each state written to the store: the optimistic one at once, then the
+  // server's (or a rollback)
+  readonly changes: Observable<T> = this.shown.asObservable();
+
+  // Last state confirmed by the server, restored when a request fails
+  private confirmed: T | null = null;
+  private intended = false;
+  private intents = new Subject<Intent>();
+  // Clicks made, and the last one whose request has settled. While they
+  // differ the entity shows this toggle's optimistic state.
+  private clicks = 0;
+  private settled = 0;
+
+  constructor(private readonly options: OptimisticToggleOptions<T>) {
+    this.intents
+      .pipe(
+        debounceTime(DEBOUNCE_MS),
+        concatMap((intent) => this.save(intent)),
+      )
+      .subscribe();
+    // Completing flushes a pending click instead of dropping it
+    inject(DestroyRef).onDestroy(() => this.intents.complete());
+  }
+
+  // Takes the entity as it is shown now
+  toggle(current: T): void {
+    // Idle, so it is up to date, also with changes made elsewhere (e.g.
+    // another button for the same entity)
+    if (this.settled === this.clicks) {
+      this.confirmed = current;
+    }
+    this.intended = !this.options.isOn(current);
+    this.show(this.options.withState(current, this.intended));
+    this.intents.next({ on: this.intended, click: ++this.clicks });
+  }
+
+  private show(entity: T): void {
+    this.options.store(entity);
+    this.shown.next(entity);
+  }
+
+  private save({ on, click }: Intent): Observable<never> {
+    const { isOn, withState, send, failureMessage } = this.options;
+    return defer(() => {
+      const confirmed = this.confirmed!;
+      // Toggled back and forth: nothing to send
+      if (on === isOn(confirmed)) {
+        return EMPTY;
+      }
+
+      return send(confirmed, on).pipe(
+        tap((saved) => {
+          this.confirmed = saved;
+          // Otherwise a newer click is waiting, and showing this would undo it
+          if (isOn(saved) === this.intended) {
+            this.show(saved);
+          }
+        }),
+        ignoreElements(),
+        catchError((err) => {
+          // Sent once back online, so keep showing it as done
+          if (isQueued(err)) {
+            this.confirmed = withState(confirmed, on);
+            return EMPTY;
+          }
+
+          this.notificationService.error(failureMessage(confirmed, on), err);
+          this.intended = isOn(confirmed);
+          this.show(confirmed);
+          return EMPTY;
+        }),
+      );
+    }).pipe(finalize(() => (this.settled = click)));
+  }
+}
@@ -0,0 +1,50 @@
+import { responseSchema } from "./api-schemas";
+import { INVALID, SchemaIssue } from "./schema";
+
+describe("responseSchema", () => {
+  const article = {
+    slug: "a",
+    title: "A",
+    description: "",
+    body: "",
+    tagList: [],
+    createdAt: "2025-01-01T00:00:00.000Z",
+    updatedAt: "2025-01-01T00:00:00.000Z",
+    favorited: false,
+    favoritesCount: 0,
+    author: { username: "jake", bio: null, image: null, following: false },
+  };
+
+  it("matches a created article posted to /articles/", () => {
+    const schema = responseSchema("POST", "/articles/");
+    const issues: SchemaIssue[] = [];
+
+    expect(schema).not.toBeNull();
+    expect(schema!({ article }, "", issues)).toEqual({ article });
+    expect(issues).toEqual([]);
+  });
+
+  it("rejects a created article without a slug", () => {
+    const { slug: _, ...withoutSlug } = article;
+    const issues: SchemaIssue[] = [];
+
+    expect(
+      responseSchema("POST", "/articles/")!(
+        { article: withoutSlug },
+        "",
+        issues,
+      ),
+    ).toBe(INVALID);
+    expect(issues.length).toBe(1);
+  });
+
+  it("matches paths with and without a trailing slash alike", () => {
+    expect(responseSchema("GET", "/articles/a/")).toBe(
+      responseSchema("GET", "/articles/a"),
+    );
+  });
+
+  it("has no schema for unknown endpoints", () => {
+    expect(responseSchema("GET", "/unknown")).toBeNull();
+  });
+});
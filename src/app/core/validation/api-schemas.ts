@@ -0,0 +1,126 @@
+import { User } from "../auth/user.model";
+import { Article } from "../../features/article/models/article.model";
+import { Comment } from "../../features/article/models/comment.model";
+import { Profile } from "../../features/profile/models/profile.model";
+import {
+  arrayOf,
+  boolean,
+  check,
+  nullable,
+  number,
+  object,
+  Schema,
+  string,
+} from "./schema";
+
+// The API sends null for a bio or image that was never set
+const profile = object<Profile>({
+  username: string(),
+  bio: nullable(string("")),
+  image: nullable(string("")),
+  following: boolean(false),
+});
+
+const article = object<Article>({
+  slug: string(),
+  title: string(""),
+  description: string(""),
+  body: string(""),
+  tagList: arrayOf(string(), []),
+  createdAt: string(""),
+  updatedAt: string(""),
+  favorited: boolean(false),
+  favoritesCount: number(0),
+  author: profile,
+});
+
+const comment = object<Comment>({
+  // Numbers on the wire, only ever used as keys and in URLs
+  id: check(
+    (value) => typeof value === "string" || typeof value === "number",
+    "an id",
+  ),
+  body: string(""),
+  createdAt: string(""),
+  author: profile,
+});
+
+const user = object<User>({
+  email: string(""),
+  token: string(),
+  username: string(),
+  bio: nullable(string("")),
+  image: nullable(string("")),
+});
+
+interface Endpoint {
+  methods: string[];
+  path: RegExp;
+  schema: Schema<unknown>;
+}
+
+// Response shapes by request, matched against the path before the API's
+// base URL is added, without a trailing slash
+const ENDPOINTS: Endpoint[] = [
+  {
+    methods: ["GET"],
+    path: /^\/articles(\/feed)?$/,
+    schema: object({
+      articles: arrayOf(article),
+      articlesCount: number(0),
+    }),
+  },
+  {
+    methods: ["POST"],
+    path: /^\/articles$/,
+    schema: object({ article }),
+  },
+  {
+    methods: ["GET", "PUT"],
+    path: /^\/articles\/[^/]+$/,
+    schema: object({ article }),
+  },
+  {
+    methods: ["POST", "DELETE"],
+    path: /^\/articles\/[^/]+\/favorite$/,
+    schema: object({ article }),
+  },
+  {
+    methods: ["GET"],
+    path: /^\/articles\/[^/]+\/comments$/,
+    schema: object({ comments: arrayOf(comment) }),
+  },
+  {
+    methods: ["POST"],
+    path: /^\/articles\/[^/]+\/comments$/,
+    schema: object({ comment }),
+  },
+  {
+    methods: ["GET", "POST", "DELETE"],
+    path: /^\/profiles\/[^/]+(\/follow)?$/,
+    schema: object({ profile }),
+  },
+  {
+    methods: ["GET", "POST", "PUT"],
+    path: /^\/(user|users|users\/login)$/,
+    schema: object({ user }),
+  },
+  {
+    methods: ["GET"],
+    path: /^\/tags$/,
+    schema: object({ tags: arrayOf(string()) }),
+  },
+];
+
+export function responseSchema(
+  method: string,
+  path: string,
+): Schema<unknown> | null {
+  // e.g. ArticlesService.create posts to "/articles/"
+  const trimmed = path.replace(/\/+$/, "");
+  const endpoint = ENDPOINTS.find(
+    (endpoint) =>
+      endpoint.methods.includes(method) && endpoint.path.test(trimmed),
+  );
+  return endpoint?.schema ?? null;
+}
@@ -0,0 +1,120 @@
+// Minimal runtime schemas for API payloads. A schema returns the value it
+// accepted (possibly repaired with a fallback) or INVALID, and records what
+// it had to fix in `issues`.
+
+export interface SchemaIssue {
+  // e.g. "articles[3].author.username"
+  path: string;
+  problem: string;
+}
+
+export const INVALID = Symbol("invalid");
+
+export type Schema<T> = (
+  value: unknown,
+  path: string,
+  issues: SchemaIssue[],
+) => T | typeof INVALID;
+
+type Fields<T> = { [K in keyof T]-?: Schema<T[K]> };
+
+// A value of the right type, or the fallback (when given) in its place
+export function check<T>(
+  is: (value: unknown) => boolean,
+  expected: string,
+  fallback?: T,
+): Schema<T> {
+  return (value, path, issues) => {
+    if (is(value)) {
+      return value as T;
+    }
+    issues.push({
+      path,
+      problem: `expected ${expected}, got ${describe(value)}`,
+    });
+    return fallback === undefined ? INVALID : fallback;
+  };
+}
+
+export function string(fallback?: string): Schema<string> {
+  return check((value) => typeof value === "string", "a string", fallback);
+}
+
+export function number(fallback?: number): Schema<number> {
+  return check(
+    (value) => typeof value === "number" && !isNaN(value),
+    "a number",
+    fallback,
+  );
+}
+
+export function boolean(fallback?: boolean): Schema<boolean> {
+  return check((value) => typeof value === "boolean", "a boolean", fallback);
+}
+
+// Lets null through as is, for fields the API leaves unset
+export function nullable<T>(schema: Schema<T>): Schema<T> {
+  return (value, path, issues) =>
+    value === null ? (value as T) : schema(value, path, issues);
+}
+
+// Items that are invalid are dropped, the rest are kept
+export function arrayOf<T>(item: Schema<T>, fallback?: T[]): Schema<T[]> {
+  return (value, path, issues) => {
+    if (!Array.isArray(value)) {
+      issues.push({
+        path,
+        problem: `expected an array, got ${describe(value)}`,
+      });
+      return fallback === undefined ? INVALID : fallback;
+    }
+
+    const items: T[] = [];
+    value.forEach((element, index) => {
+      const itemPath = `${path}[${index}]`;
+      const parsed = item(element, itemPath, issues);
+      if (parsed === INVALID) {
+        issues.push({ path: itemPath, problem: "dropped" });
+      } else {
+        items.push(parsed);
+      }
+    });
+    return items;
+  };
+}
+
+// Invalid when a field without a fallback is; unknown fields are kept
+export function object<T>(fields: Fields<T>): Schema<T> {
+  return (value, path, issues) => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      issues.push({
+        path,
+        problem: `expected an object, got ${describe(value)}`,
+      });
+      return INVALID;
+    }
+
+    const result: { [key: string]: unknown } = { ...value };
+    let valid = true;
+    for (const key of Object.keys(fields) as (keyof T & string)[]) {
+      const parsed = fields[key](
+        (value as { [key: string]: unknown })[key],
+        path ? `${path}.${key}` : key,
+        issues,
+      );
+      if (parsed === INVALID) {
+        valid = false;
+      } else {
+        result[key] = parsed;
+      }
+    }
+    return valid ? (result as T) : INVALID;
+  };
+}
+
+function describe(value: unknown): string {
+  if (value === null || value === undefined) {
+    return String(value);
+  }
+  return Array.isArray(value) ? "an array" : typeof value;
+}
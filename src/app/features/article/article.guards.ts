@@ -0,0 +1,29 @@
+import { inject } from "@angular/core";
+import { CanActivateFn, Router } from "@angular/router";
+import { of } from "rxjs";
+import { catchError, map, switchMap, take } from "rxjs/operators";
+import { ArticlesService } from "./services/articles.service";
+import { PermissionService } from "../../core/auth/services/permission.service";
+import { loadFailed } from "../../core/errors/load-failed";
+
+// Only the author edits an article; anyone else is shown the article instead
+export const canEditArticle: CanActivateFn = (route) => {
+  const router = inject(Router);
+  const permissions = inject(PermissionService);
+  const slug = route.paramMap.get("slug")!;
+  return inject(ArticlesService)
+    .get(slug)
+    .pipe(
+      take(1),
+      switchMap((article) =>
+        permissions.can("edit-article", article).pipe(
+          take(1),
+          map(
+            (allowed) =>
+              allowed || router.createUrlTree(["/article", article.slug]),
+          ),
+        ),
+      ),
+      catchError((error) => of(loadFailed(router, error, "article"))),
+    );
+};
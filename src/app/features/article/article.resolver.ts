@@ -0,0 +1,14 @@
+import { inject } from "@angular/core";
+import { ResolveFn, Router } from "@angular/router";
+import { of } from "rxjs";
+import { catchError } from "rxjs/operators";
+import { ArticlesService } from "./services/articles.service";
+import { Article } from "./models/article.model";
+import { loadFailed } from "../../core/errors/load-failed";
+
+export const articleResolver: ResolveFn<Article> = (route) => {
+  const router = inject(Router);
+  return inject(ArticlesService)
+    .get(route.paramMap.get("slug")!)
+    .pipe(catchError((error) => of(loadFailed(router, error, "article"))));
+};
@@ -1,15 +1,19 @@
-import { Component, EventEmitter, Input, Output, inject } from "@angular/core";
-import { UserService } from "../../../core/auth/services/user.service";
-import { User } from "../../../core/auth/user.model";
+import {
+  ChangeDetectionStrategy,
+  Component,
+  input,
+  output,
+} from "@angular/core";
 import { RouterLink } from "@angular/router";
-import { map } from "rxjs/operators";
 import { Comment } from "../models/comment.model";
-import { AsyncPipe, DatePipe } from "@angular/common";
+import { DatePipe } from "@angular/common";
+import { IfCanDirective } from "../../../core/auth/if-can.directive";
+import { PrefetchDirective } from "../../../core/prefetch/prefetch.directive";
 
 @Component({
   selector: "app-article-comment",
   template: `
-    @if (comment) {
+    @if (comment(); as comment) {
       <div class="card">
         <div class="card-block">
           <p class="card-text">
@@ -20,6 +24,7 @@ import { AsyncPipe, DatePipe } from "@angular/common";
           <a
             class="comment-author"
             [routerLink]="['/profile', comment.author.username]"
+            [prefetchProfile]="comment.author.username"
           >
             <img [src]="comment.author.image" class="comment-author-img" />
           </a>
@@ -27,31 +32,24 @@ import { AsyncPipe, DatePipe } from "@angular/common";
           <a
             class="comment-author"
             [routerLink]="['/profile', comment.author.username]"
+            [prefetchProfile]="comment.author.username"
           >
             {{ comment.author.username }}
           </a>
           <span class="date-posted">
             {{ comment.createdAt | date: "longDate" }}
           </span>
-          @if (canModify$ | async) {
-            <span class="mod-options">
-              <i class="ion-trash-a" (click)="delete.emit(true)"></i>
-            </span>
-          }
+          <span class="mod-options" *ifCan="'delete-comment'; subject: comment">
+            <i class="ion-trash-a" (click)="delete.emit(true)"></i>
+          </span>
         </div>
       </div>
     }
   `,
-  imports: [RouterLink, DatePipe, AsyncPipe],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  imports: [RouterLink, DatePipe, IfCanDirective, PrefetchDirective],
 })
 export class ArticleCommentComponent {
-  @Input() comment!: Comment;
-  @Output() delete = new EventEmitter<boolean>();
-
-  canModify$ = inject(UserService).currentUser.pipe(
-    map(
-      (userData: User | null) =>
-        userData?.username === this.comment.author.username,
-    ),
-  );
+  comment = input.required<Comment>();
+  delete = output<boolean>();
 }
@@ -1,97 +1,255 @@
-import { Component, DestroyRef, inject, Input } from "@angular/core";
+import {
+  afterNextRender,
+  ChangeDetectionStrategy,
+  Component,
+  DestroyRef,
+  inject,
+  Injector,
+  input,
+  model,
+  OnChanges,
+  signal,
+  SimpleChanges,
+} from "@angular/core";
+import { Router } from "@angular/router";
 import { ArticlesService } from "../services/articles.service";
-import { ArticleListConfig } from "../models/article-list-config.model";
+import { ArticleListStateService } from "../services/article-list-state.service";
+import {
+  ArticleListConfig,
+  PaginationMode,
+} from "../models/article-list-config.model";
 import { Article } from "../models/article.model";
 import { ArticlePreviewComponent } from "./article-preview.component";
-import { NgClass } from "@angular/common";
 import { LoadingState } from "../../../core/models/loading-state.model";
+import { InViewportDirective } from "../../../shared/directives/in-viewport.directive";
+import { PaginationComponent } from "../../../shared/components/pagination.component";
+import { SkeletonComponent } from "../../../shared/components/skeleton.component";
+import { LoadErrorComponent } from "../../../shared/components/load-error.component";
 import { takeUntilDestroyed } from "@angular/core/rxjs-interop";
+import { EMPTY, Subject } from "rxjs";
+import { catchError, map, switchMap } from "rxjs/operators";
+
+interface PageLoad {
+  config: ArticleListConfig;
+  // Infinite mode adds the page to the articles already shown
+  append: boolean;
+}
 
 @Component({
   selector: "app-article-list",
   template: `
-    @if (loading === LoadingState.LOADING) {
-      <div class="article-preview">Loading articles...</div>
-    }
-
-    @if (loading === LoadingState.LOADED) {
-      @for (article of results; track article.slug) {
-        <app-article-preview [article]="article" />
-      } @empty {
+    @let loading = this.loading();
+    @for (article of results(); track article.slug) {
+      <app-article-preview [article]="article" />
+    } @empty {
+      @if (loading.status === "loaded") {
         <div class="article-preview">No articles are here... yet.</div>
       }
+    }
 
-      <nav>
-        <ul class="pagination">
-          @for (pageNumber of totalPages; track pageNumber) {
-            <li
-              class="page-item"
-              [ngClass]="{ active: pageNumber === currentPage }"
-            >
-              <button class="page-link" (click)="setPageTo(pageNumber)">
-                {{ pageNumber }}
-              </button>
-            </li>
-          }
-        </ul>
-      </nav>
+    @if (loading.status === "loading") {
+      <app-skeleton variant="article" [count]="results().length ? 1 : 3" />
+    } @else if (loading.status === "error") {
+      <app-load-error
+        what="articles"
+        [error]="loading.error"
+        (retry)="retry()"
+      />
     }
-  `,
-  imports: [ArticlePreviewComponent, NgClass],
-  styles: `
-    .page-link {
-      cursor: pointer;
+
+    @if (mode() === "infinite") {
+      @if (loading.status === "loaded" && currentPage() < totalPages()) {
+        <div
+          class="article-preview"
+          inViewportMargin="200px"
+          (inViewport)="loadMore()"
+        >
+          <button class="btn btn-sm btn-outline-secondary" (click)="loadMore()">
+            Load more
+          </button>
+        </div>
+      }
+    } @else if (loading.status === "loaded") {
+      <app-pagination
+        [currentPage]="currentPage()"
+        [totalPages]="totalPages()"
+        (pageChange)="setPageTo($event)"
+      />
     }
   `,
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  imports: [
+    ArticlePreviewComponent,
+    InViewportDirective,
+    PaginationComponent,
+    SkeletonComponent,
+    LoadErrorComponent,
+  ],
 })
-export class ArticleListComponent {
-  query!: ArticleListConfig;
-  results: Article[] = [];
-  currentPage = 1;
-  totalPages: Array<number> = [];
-  loading = LoadingState.NOT_LOADED;
-  LoadingState = LoadingState;
+export class ArticleListComponent implements OnChanges {
+  results = signal<Article[]>([]);
+  currentPage = signal(1);
+  totalPages = signal(0);
+  articlesCount = signal(0);
+  loading = signal<LoadingState>(LoadingState.NOT_LOADED);
   destroyRef = inject(DestroyRef);
 
-  @Input() limit!: number;
-  @Input()
-  set config(config: ArticleListConfig) {
-    if (config) {
-      this.query = config;
-      this.currentPage = 1;
+  limit = input.required<number>();
+  mode = input<PaginationMode>("pages");
+  config = input.required<ArticleListConfig>();
+  // Page to show in "pages" mode. Page links set it, so a parent binding
+  // [(page)] (or page and pageChange) can keep it in the URL.
+  page = model(1);
+
+  // Only a back/forward navigation returns to where the list was left
+  private restoring: boolean;
+  private readonly injector = inject(Injector);
+  // Each load replaces the previous one, so a slow page cannot land last
+  private loads = new Subject<PageLoad | null>();
+  private lastLoad: PageLoad | null = null;
+
+  constructor(
+    private articlesService: ArticlesService,
+    private readonly listState: ArticleListStateService,
+    router: Router,
+  ) {
+    this.restoring = router.getCurrentNavigation()?.trigger === "popstate";
+    this.destroyRef.onDestroy(() => this.saveState());
+
+    this.loads
+      .pipe(
+        switchMap((load) =>
+          load
+            ? this.articlesService.query(load.config).pipe(
+                map((data) => ({ ...load, data })),
+                // Keep the stream alive for the retry
+                catchError((error) => {
+                  this.loading.set(LoadingState.error(error));
+                  return EMPTY;
+                }),
+              )
+            : EMPTY,
+        ),
+        takeUntilDestroyed(),
+      )
+      .subscribe(({ append, data }) => {
+        this.loading.set(LoadingState.LOADED);
+        this.results.update((results) =>
+          append ? [...results, ...data.articles] : data.articles,
+        );
+        this.articlesCount.set(data.articlesCount);
+        this.totalPages.set(Math.ceil(data.articlesCount / this.limit()));
+
+        // A page past the end (e.g. from an old link) shows the last one,
+        // and the parent is told so it can correct the URL
+        if (this.currentPage() > this.totalPages() && this.totalPages() > 0) {
+          this.currentPage.set(this.totalPages());
+          this.page.set(this.totalPages());
+          this.runQuery();
+        }
+      });
+  }
+
+  ngOnChanges(changes: SimpleChanges): void {
+    if (!(changes["config"] || changes["page"])) {
+      return;
+    }
+    // The parent passing back the page this list just moved to
+    if (!changes["config"] && this.page() === this.currentPage()) {
+      return;
+    }
+
+    this.currentPage.set(this.mode() === "pages" ? this.page() : 1);
+    if (!this.restore()) {
       this.runQuery();
     }
   }
 
-  constructor(private articlesService: ArticlesService) {}
-
   setPageTo(pageNumber: number) {
-    this.currentPage = pageNumber;
+    this.page.set(pageNumber);
+    this.currentPage.set(pageNumber);
     this.runQuery();
   }
 
-  runQuery() {
-    this.loading = LoadingState.LOADING;
-    this.results = [];
+  retry(): void {
+    if (this.lastLoad) {
+      this.loading.set(LoadingState.LOADING);
+      this.loads.next(this.lastLoad);
+    }
+  }
+
+  loadMore(): void {
+    if (
+      this.loading().status !== "loaded" ||
+      this.currentPage() >= this.totalPages()
+    ) {
+      return;
+    }
+    this.currentPage.update((page) => page + 1);
+    this.runQuery(true);
+  }
+
+  runQuery(append = false) {
+    this.loading.set(LoadingState.LOADING);
+    if (!append) {
+      this.results.set([]);
+    }
 
     // Create limit and offset filter (if necessary)
-    if (this.limit) {
-      this.query.filters.limit = this.limit;
-      this.query.filters.offset = this.limit * (this.currentPage - 1);
+    const query = this.config();
+    const config: ArticleListConfig = {
+      ...query,
+      filters: { ...query.filters },
+    };
+    const limit = this.limit();
+    if (limit) {
+      config.filters.limit = limit;
+      config.filters.offset = limit * (this.currentPage() - 1);
     }
 
-    this.articlesService
-      .query(this.query)
-      .pipe(takeUntilDestroyed(this.destroyRef))
-      .subscribe((data) => {
-        this.loading = LoadingState.LOADED;
-        this.results = data.articles;
-
-        // Used from http://www.jstips.co/en/create-range-0...n-easily-using-one-line/
-        this.totalPages = Array.from(
-          new Array(Math.ceil(data.articlesCount / this.limit)),
-          (val, index) => index + 1,
-        );
-      });
+    this.lastLoad = { config, append };
+    this.loads.next(this.lastLoad);
+  }
+
+  private restore(): boolean {
+    const state =
+      this.mode() === "infinite" && this.restoring
+        ? this.listState.get(this.stateKey())
+        : null;
+    this.restoring = false;
+    if (!state) {
+      return false;
+    }
+
+    this.loads.next(null);
+    this.results.set(state.articles);
+    this.currentPage.set(state.page);
+    this.articlesCount.set(state.articlesCount);
+    this.totalPages.set(Math.ceil(state.articlesCount / this.limit()));
+    this.loading.set(LoadingState.LOADED);
+    afterNextRender(() => window.scrollTo(0, state.scrollY), {
+      injector: this.injector,
+    });
+    return true;
+  }
+
+  private saveState(): void {
+    if (this.mode() !== "infinite" || this.loading().status !== "loaded") {
+      return;
+    }
+
+    this.listState.save(this.stateKey(), {
+      articles: this.results(),
+      page: this.currentPage(),
+      articlesCount: this.articlesCount(),
+      scrollY: window.scrollY,
+    });
+  }
+
+  // Identifies the list regardless of the page currently loaded
+  private stateKey(): string {
+    const { type, filters } = this.config();
+    const { limit, offset, ...rest } = filters;
+    return JSON.stringify([type, rest, this.limit()]);
   }
 }
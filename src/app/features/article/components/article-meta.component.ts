@@ -1,22 +1,30 @@
-import { ChangeDetectionStrategy, Component, Input } from "@angular/core";
+import { ChangeDetectionStrategy, Component, input } from "@angular/core";
 import { Article } from "../models/article.model";
 import { RouterLink } from "@angular/router";
 import { DatePipe } from "@angular/common";
+import { PrefetchDirective } from "../../../core/prefetch/prefetch.directive";
 
 @Component({
   selector: "app-article-meta",
   template: `
     <div class="article-meta">
-      <a [routerLink]="['/profile', article.author.username]">
-        <img [src]="article.author.image" />
+      <a
+        [routerLink]="['/profile', article().author.username]"
+        [prefetchProfile]="article().author.username"
+      >
+        <img [src]="article().author.image" />
       </a>
 
       <div class="info">
-        <a class="author" [routerLink]="['/profile', article.author.username]">
-          {{ article.author.username }}
+        <a
+          class="author"
+          [routerLink]="['/profile', article().author.username]"
+          [prefetchProfile]="article().author.username"
+        >
+          {{ article().author.username }}
         </a>
         <span class="date">
-          {{ article.createdAt | date: "longDate" }}
+          {{ article().createdAt | date: "longDate" }}
         </span>
       </div>
 
@@ -24,8 +32,8 @@ import { DatePipe } from "@angular/common";
     </div>
   `,
   changeDetection: ChangeDetectionStrategy.OnPush,
-  imports: [RouterLink, DatePipe],
+  imports: [RouterLink, DatePipe, PrefetchDirective],
 })
 export class ArticleMetaComponent {
-  @Input() article!: Article;
+  article = input.required<Article>();
 }
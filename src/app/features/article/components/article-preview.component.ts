@@ -1,25 +1,34 @@
-import { Component, Input } from "@angular/core";
+import {
+  ChangeDetectionStrategy,
+  Component,
+  computed,
+  inject,
+  input,
+} from "@angular/core";
 import { Article } from "../models/article.model";
 import { ArticleMetaComponent } from "./article-meta.component";
 import { RouterLink } from "@angular/router";
 
 import { FavoriteButtonComponent } from "./favorite-button.component";
+import { EntityStoreService } from "../../../core/store/entity-store.service";
+import { PrefetchDirective } from "../../../core/prefetch/prefetch.directive";
 
 @Component({
   selector: "app-article-preview",
   template: `
+    @let article = current();
     <div class="article-preview">
       <app-article-meta [article]="article">
-        <app-favorite-button
-          [article]="article"
-          (toggle)="toggleFavorite($event)"
-          class="pull-xs-right"
-        >
+        <app-favorite-button [article]="article" class="pull-xs-right">
           {{ article.favoritesCount }}
         </app-favorite-button>
       </app-article-meta>
 
-      <a [routerLink]="['/article', article.slug]" class="preview-link">
+      <a
+        [routerLink]="['/article', article.slug]"
+        [prefetchArticle]="article.slug"
+        class="preview-link"
+      >
         <h1>{{ article.title }}</h1>
         <p>{{ article.description }}</p>
         <span>Read more...</span>
@@ -33,18 +42,21 @@ import { FavoriteButtonComponent } from "./favorite-button.component";
       </a>
     </div>
   `,
-  imports: [ArticleMetaComponent, FavoriteButtonComponent, RouterLink],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  imports: [
+    ArticleMetaComponent,
+    FavoriteButtonComponent,
+    RouterLink,
+    PrefetchDirective,
+  ],
 })
 export class ArticlePreviewComponent {
-  @Input() article!: Article;
+  private readonly store = inject(EntityStoreService);
+  readonly source = input.required<Article>({ alias: "article" });
 
-  toggleFavorite(favorited: boolean): void {
-    this.article.favorited = favorited;
-
-    if (favorited) {
-      this.article.favoritesCount++;
-    } else {
-      this.article.favoritesCount--;
-    }
-  }
+  // The stored copy reflects changes made anywhere else on screen
+  readonly current = computed(() => {
+    const article = this.source();
+    return this.store.article(article.slug) ?? article;
+  });
 }
@@ -0,0 +1,101 @@
+import {
+  ChangeDetectionStrategy,
+  Component,
+  computed,
+  input,
+  linkedSignal,
+} from "@angular/core";
+import { takeUntilDestroyed } from "@angular/core/rxjs-interop";
+import { fromEvent } from "rxjs";
+import { NgClass } from "@angular/common";
+import { TocEntry } from "../../../shared/services/markdown.service";
+
+// Distance from the top of the viewport at which a section counts as current
+const ACTIVE_OFFSET_PX = 80;
+
+@Component({
+  selector: "app-article-toc",
+  template: `
+    <nav class="article-toc" aria-label="Table of contents">
+      <p>Contents</p>
+      <ul>
+        @for (entry of entries(); track entry.id) {
+          <li [ngClass]="'toc-level-' + (entry.level - minLevel())">
+            <a
+              [href]="'#' + entry.id"
+              [ngClass]="{ active: entry.id === activeId() }"
+              (click)="scrollTo($event, entry)"
+            >
+              {{ entry.text }}
+            </a>
+          </li>
+        }
+      </ul>
+    </nav>
+  `,
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  imports: [NgClass],
+  styles: `
+    .article-toc {
+      position: sticky;
+      top: 1rem;
+    }
+    ul {
+      list-style: none;
+      padding-left: 0;
+    }
+    a {
+      color: #999;
+    }
+    a.active {
+      color: #5cb85c;
+      font-weight: 600;
+    }
+    .toc-level-1 {
+      padding-left: 0.75rem;
+    }
+    .toc-level-2,
+    .toc-level-3,
+    .toc-level-4,
+    .toc-level-5 {
+      padding-left: 1.5rem;
+    }
+  `,
+})
+export class ArticleTocComponent {
+  entries = input.required<TocEntry[]>();
+  minLevel = computed(() =>
+    Math.min(...this.entries().map((entry) => entry.level)),
+  );
+  // Starts over at the first heading when the entries change
+  activeId = linkedSignal(() => this.entries()[0]?.id ?? null);
+
+  constructor() {
+    // Not a host listener: those run change detection on every scroll event,
+    // this only does when the active heading changes
+    fromEvent(window, "scroll", { passive: true })
+      .pipe(takeUntilDestroyed())
+      .subscribe(() => this.onScroll());
+  }
+
+  onScroll(): void {
+    // The current section is the last heading scrolled past the offset
+    const entries = this.entries();
+    let activeId = entries[0]?.id ?? null;
+    for (const entry of entries) {
+      const heading = document.getElementById(entry.id);
+      if (heading && heading.getBoundingClientRect().top > ACTIVE_OFFSET_PX) {
+        break;
+      }
+      activeId = entry.id;
+    }
+    this.activeId.set(activeId);
+  }
+
+  scrollTo(event: MouseEvent, entry: TocEntry): void {
+    // <base href="/"> would otherwise turn "#id" into a navigation to "/#id"
+    event.preventDefault();
+    document.getElementById(entry.id)?.scrollIntoView({ behavior: "smooth" });
+    this.activeId.set(entry.id);
+  }
+}
@@ -1,18 +1,12 @@
-import {
-  Component,
-  DestroyRef,
-  EventEmitter,
-  inject,
-  Input,
-  Output,
-} from "@angular/core";
+import { ChangeDetectionStrategy, Component, input } from "@angular/core";
+import { outputFromObservable } from "@angular/core/rxjs-interop";
 import { Router } from "@angular/router";
-import { EMPTY, switchMap } from "rxjs";
 import { NgClass } from "@angular/common";
 import { ArticlesService } from "../services/articles.service";
 import { UserService } from "../../../core/auth/services/user.service";
 import { Article } from "../models/article.model";
-import { takeUntilDestroyed } from "@angular/core/rxjs-interop";
+import { EntityStoreService } from "../../../core/store/entity-store.service";
+import { OptimisticToggle } from "../../../core/store/optimistic-toggle";
 
 @Component({
   selector: "app-favorite-button",
@@ -20,55 +14,59 @@ import { takeUntilDestroyed } from "@angular/core/rxjs-interop";
     <button
       class="btn btn-sm"
       [ngClass]="{
-        disabled: isSubmitting,
-        'btn-outline-primary': !article.favorited,
-        'btn-primary': article.favorited
+        'btn-outline-primary': !article().favorited,
+        'btn-primary': article().favorited
       }"
       (click)="toggleFavorite()"
     >
       <i class="ion-heart"></i> <ng-content></ng-content>
     </button>
   `,
+  changeDetection: ChangeDetectionStrategy.OnPush,
   imports: [NgClass],
 })
 export class FavoriteButtonComponent {
-  destroyRef = inject(DestroyRef);
-  isSubmitting = false;
+  article = input.required<Article>();
 
-  @Input() article!: Article;
-  @Output() toggle = new EventEmitter<boolean>();
+  private favorite = new OptimisticToggle<Article>({
+    isOn: (article) => article.favorited,
+    withState: withFavorited,
+    send: (article, favorited) =>
+      favorited
+        ? this.articleService.favorite(article.slug)
+        : this.articleService.unfavorite(article.slug),
+    store: ({ slug, favorited, favoritesCount }) =>
+      this.store.patchArticle(slug, { favorited, favoritesCount }),
+    failureMessage: (article, favorited) =>
+      `Could not ${favorited ? "favorite" : "unfavorite"} "${article.title}".`,
+  });
+  // Emits the optimistic state at once, then the server's (or a rollback).
+  // Both are written to the entity store as well.
+  toggle = outputFromObservable(this.favorite.changes);
 
   constructor(
     private readonly articleService: ArticlesService,
     private readonly router: Router,
     private readonly userService: UserService,
+    private readonly store: EntityStoreService,
   ) {}
 
   toggleFavorite(): void {
-    this.isSubmitting = true;
-
-    this.userService.isAuthenticated
-      .pipe(
-        switchMap((authenticated) => {
-          if (!authenticated) {
-            void this.router.navigate(["/register"]);
-            return EMPTY;
-          }
-
-          if (!this.article.favorited) {
-            return this.articleService.favorite(this.article.slug);
-          } else {
-            return this.articleService.unfavorite(this.article.slug);
-          }
-        }),
-        takeUntilDestroyed(this.destroyRef),
-      )
-      .subscribe({
-        next: () => {
-          this.isSubmitting = false;
-          this.toggle.emit(!this.article.favorited);
-        },
-        error: () => (this.isSubmitting = false),
+    if (!this.userService.isAuthenticated()) {
+      void this.router.navigate(["/register"], {
+        queryParams: { returnUrl: this.router.url },
       });
+      return;
+    }
+
+    this.favorite.toggle(this.article());
   }
 }
+
+function withFavorited(article: Article, favorited: boolean): Article {
+  return {
+    ...article,
+    favorited,
+    favoritesCount: article.favoritesCount + (favorited ? 1 : -1),
+  };
+}
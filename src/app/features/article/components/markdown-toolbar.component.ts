@@ -0,0 +1,170 @@
+import { ChangeDetectionStrategy, Component, input } from "@angular/core";
+
+interface TextEdit {
+  value: string;
+  selectionStart: number;
+  selectionEnd: number;
+}
+
+interface MarkdownAction {
+  label: string;
+  title: string;
+  // KeyboardEvent.code, pressed together with Ctrl (or Cmd)
+  code: string;
+  shift: boolean;
+  shortcut: string;
+  format: (value: string, start: number, end: number) => TextEdit;
+}
+
+const ACTIONS: MarkdownAction[] = [
+  {
+    label: "B",
+    title: "Bold",
+    code: "KeyB",
+    shift: false,
+    shortcut: "Ctrl+B",
+    format: (value, start, end) =>
+      wrap(value, start, end, "**", "**", "bold text"),
+  },
+  {
+    label: "Link",
+    title: "Link",
+    code: "KeyK",
+    shift: false,
+    shortcut: "Ctrl+K",
+    format: (value, start, end) => {
+      const text = value.slice(start, end) || "link text";
+      const url = "https://";
+      const edit = replace(value, start, end, `[${text}](${url})`);
+      // Select the URL, which is what has to be typed next
+      return {
+        ...edit,
+        selectionStart: start + text.length + 3,
+        selectionEnd: start + text.length + 3 + url.length,
+      };
+    },
+  },
+  {
+    label: "</>",
+    title: "Code block",
+    code: "KeyE",
+    shift: false,
+    shortcut: "Ctrl+E",
+    format: (value, start, end) => {
+      const newline = start > 0 && value[start - 1] !== "\n" ? "\n" : "";
+      return wrap(value, start, end, `${newline}\`\`\`\n`, "\n```\n", "code");
+    },
+  },
+  {
+    label: "H",
+    title: "Heading",
+    code: "KeyH",
+    shift: true,
+    shortcut: "Ctrl+Shift+H",
+    format: (value, start, end) => prefixLines(value, start, end, "## "),
+  },
+  {
+    label: "List",
+    title: "Bulleted list",
+    code: "Digit8",
+    shift: true,
+    shortcut: "Ctrl+Shift+8",
+    format: (value, start, end) => prefixLines(value, start, end, "- "),
+  },
+];
+
+@Component({
+  selector: "app-markdown-toolbar",
+  template: `
+    <div class="btn-group" role="toolbar" aria-label="Markdown formatting">
+      @for (action of actions; track action.code) {
+        <button
+          class="btn btn-sm btn-outline-secondary"
+          type="button"
+          [title]="action.title + ' (' + action.shortcut + ')'"
+          (click)="apply(action)"
+        >
+          {{ action.label }}
+        </button>
+      }
+    </div>
+  `,
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class MarkdownToolbarComponent {
+  target = input.required<HTMLTextAreaElement>();
+  actions = ACTIONS;
+
+  handleShortcut(event: KeyboardEvent): void {
+    if (!(event.ctrlKey || event.metaKey) || event.altKey) {
+      return;
+    }
+
+    const action = ACTIONS.find(
+      ({ code, shift }) => code === event.code && shift === event.shiftKey,
+    );
+    if (action) {
+      event.preventDefault();
+      this.apply(action);
+    }
+  }
+
+  apply(action: MarkdownAction): void {
+    const target = this.target();
+    const { value, selectionStart, selectionEnd } = target;
+    const edit = action.format(value, selectionStart, selectionEnd);
+
+    target.value = edit.value;
+    target.focus();
+    target.setSelectionRange(edit.selectionStart, edit.selectionEnd);
+    // Let the form control pick up the new value
+    target.dispatchEvent(new Event("input", { bubbles: true }));
+  }
+}
+
+function replace(
+  value: string,
+  start: number,
+  end: number,
+  text: string,
+): TextEdit {
+  return {
+    value: value.slice(0, start) + text + value.slice(end),
+    selectionStart: start,
+    selectionEnd: start + text.length,
+  };
+}
+
+// Surrounds the selection (or a placeholder) and keeps it selected
+function wrap(
+  value: string,
+  start: number,
+  end: number,
+  before: string,
+  after: string,
+  placeholder: string,
+): TextEdit {
+  const text = value.slice(start, end) || placeholder;
+  const edit = replace(value, start, end, before + text + after);
+  return {
+    ...edit,
+    selectionStart: start + before.length,
+    selectionEnd: start + before.length + text.length,
+  };
+}
+
+// Prefixes every line touched by the selection
+function prefixLines(
+  value: string,
+  start: number,
+  end: number,
+  prefix: string,
+): TextEdit {
+  const lineStart = start > 0 ? value.lastIndexOf("\n", start - 1) + 1 : 0;
+  const lines = value
+    .slice(lineStart, end)
+    .split("\n")
+    .map((line) => prefix + line)
+    .join("\n");
+  return replace(value, lineStart, end, lines);
+}
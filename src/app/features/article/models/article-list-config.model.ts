@@ -9,3 +9,6 @@ export interface ArticleListConfig {
     offset?: number;
   };
 }
+
+// "pages" shows numbered pages, "infinite" loads more while scrolling
+export type PaginationMode = "pages" | "infinite";
@@ -0,0 +1,17 @@
+import { Article } from "./article.model";
+
+export interface ArticleSearchCriteria {
+  // Free text matched against titles and descriptions
+  text: string;
+  // Articles with any of these tags
+  tags: string[];
+  author: string | null;
+  favoritedBy: string | null;
+}
+
+export interface ArticleSearchResult {
+  articles: Article[];
+  articlesCount: number;
+  // Only the most recent matches were searched, see MAX_SCANNED_ARTICLES
+  truncated: boolean;
+}
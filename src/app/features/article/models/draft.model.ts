@@ -0,0 +1,9 @@
+export interface Draft {
+  // "new" for an unpublished article, otherwise the slug being edited
+  key: string;
+  title: string;
+  description: string;
+  body: string;
+  tagList: string[];
+  savedAt: string;
+}
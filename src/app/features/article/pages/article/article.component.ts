@@ -1,138 +1,220 @@
-import { Component, DestroyRef, inject, OnInit } from "@angular/core";
+import {
+  ChangeDetectionStrategy,
+  Component,
+  computed,
+  DestroyRef,
+  effect,
+  inject,
+  OnInit,
+  signal,
+} from "@angular/core";
 import { FormControl, FormsModule, ReactiveFormsModule } from "@angular/forms";
 import { ActivatedRoute, Router, RouterLink } from "@angular/router";
-import { User } from "../../../../core/auth/user.model";
-import { Article } from "../../models/article.model";
 import { ArticlesService } from "../../services/articles.service";
 import { CommentsService } from "../../services/comments.service";
 import { UserService } from "../../../../core/auth/services/user.service";
+import { NotificationService } from "../../../../core/notifications/notification.service";
 import { ArticleMetaComponent } from "../../components/article-meta.component";
-import { AsyncPipe, NgClass } from "@angular/common";
-import { MarkdownPipe } from "../../../../shared/pipes/markdown.pipe";
+import { NgClass } from "@angular/common";
+import {
+  MarkdownService,
+  RenderedMarkdown,
+} from "../../../../shared/services/markdown.service";
 import { ListErrorsComponent } from "../../../../shared/components/list-errors.component";
 import { ArticleCommentComponent } from "../../components/article-comment.component";
-import { catchError } from "rxjs/operators";
-import { combineLatest, throwError } from "rxjs";
+import { from, Subscription } from "rxjs";
+import { distinctUntilChanged, map, skip } from "rxjs/operators";
+import { Article } from "../../models/article.model";
 import { Comment } from "../../models/comment.model";
 import { IfAuthenticatedDirective } from "../../../../core/auth/if-authenticated.directive";
+import { IfCanDirective } from "../../../../core/auth/if-can.directive";
 import { Errors } from "../../../../core/models/errors.model";
-import { Profile } from "../../../profile/models/profile.model";
 import { takeUntilDestroyed } from "@angular/core/rxjs-interop";
 import { FavoriteButtonComponent } from "../../components/favorite-button.component";
 import { FollowButtonComponent } from "../../../profile/components/follow-button.component";
+import { ArticleTocComponent } from "../../components/article-toc.component";
+import { isQueued } from "../../../../core/offline/offline-queue.service";
+import { EntityStoreService } from "../../../../core/store/entity-store.service";
+import { LoadingState } from "../../../../core/models/loading-state.model";
+import { SkeletonComponent } from "../../../../shared/components/skeleton.component";
+import { LoadErrorComponent } from "../../../../shared/components/load-error.component";
 
 @Component({
   selector: "app-article-page",
   templateUrl: "./article.component.html",
+  changeDetection: ChangeDetectionStrategy.OnPush,
   imports: [
     ArticleMetaComponent,
     RouterLink,
     NgClass,
     FollowButtonComponent,
     FavoriteButtonComponent,
-    MarkdownPipe,
-    AsyncPipe,
+    ArticleTocComponent,
     ListErrorsComponent,
     FormsModule,
     ArticleCommentComponent,
     ReactiveFormsModule,
     IfAuthenticatedDirective,
+    IfCanDirective,
+    SkeletonComponent,
+    LoadErrorComponent,
   ],
 })
 export default class ArticleComponent implements OnInit {
-  article!: Article;
-  currentUser!: User | null;
-  comments: Comment[] = [];
-  canModify: boolean = false;
+  private resolved = signal<Article | null>(null);
+  slug = computed(() => this.resolved()?.slug ?? null);
+  // Read from the store, so follows and favorites made elsewhere show up.
+  // The store is emptied on sign-out; the page keeps what it loaded until
+  // it has been fetched again.
+  article = computed(() => {
+    const resolved = this.resolved();
+    return resolved ? this.store.article(resolved.slug) ?? resolved : null;
+  });
+  body = signal<RenderedMarkdown | null>(null);
+  // A single heading is not worth a table of contents
+  hasToc = computed(() => (this.body()?.toc.length ?? 0) > 1);
+  private renderedBody: string | null = null;
+  private commentsLoad?: Subscription;
+  currentUser = this.userService.currentUser;
+  private loadedComments = signal<Comment[]>([]);
+  comments = computed(() =>
+    this.loadedComments().map(
+      (comment) => this.store.comment(comment.id) ?? comment,
+    ),
+  );
+  commentsLoading = signal<LoadingState>(LoadingState.NOT_LOADED);
 
   commentControl = new FormControl<string>("", { nonNullable: true });
-  commentFormErrors: Errors | null = null;
+  commentFormErrors = signal<Errors | null>(null);
 
-  isSubmitting = false;
-  isDeleting = false;
+  isSubmitting = signal(false);
+  isDeleting = signal(false);
   destroyRef = inject(DestroyRef);
 
   constructor(
     private readonly route: ActivatedRoute,
     private readonly articleService: ArticlesService,
     private readonly commentsService: CommentsService,
+    private readonly markdownService: MarkdownService,
     private readonly router: Router,
     private readonly userService: UserService,
-  ) {}
+    private readonly notificationService: NotificationService,
+    private readonly store: EntityStoreService,
+  ) {
+    // Follows the stored copy, so an edit saved elsewhere is rendered too
+    effect(() => {
+      const body = this.article()?.body;
+      if (body !== undefined && body !== this.renderedBody) {
+        this.renderBody(body);
+      }
+    });
+  }
 
   ngOnInit(): void {
-    const slug = this.route.snapshot.params["slug"];
-    combineLatest([
-      this.articleService.get(slug),
-      this.commentsService.getAll(slug),
-      this.userService.currentUser,
-    ])
+    // Loaded by articleResolver, which also handles a missing article. The
+    // component is reused when only the slug changes.
+    this.route.data
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe((data) => {
+        this.resolved.set(data["article"] as Article);
+        // Comments load on their own, so failing them still shows the article
+        this.loadComments();
+      });
+
+    // Favorites and follows belong to the signed-in user
+    this.userService.currentUser$
       .pipe(
-        catchError((err) => {
-          void this.router.navigate(["/"]);
-          return throwError(() => err);
-        }),
+        map((user) => user?.username),
+        distinctUntilChanged(),
+        skip(1),
         takeUntilDestroyed(this.destroyRef),
       )
-      .subscribe(([article, comments, currentUser]) => {
-        this.article = article;
-        this.comments = comments;
-        this.currentUser = currentUser;
-        this.canModify = currentUser?.username === article.author.username;
-      });
+      .subscribe(() => this.reload());
   }
 
-  onToggleFavorite(favorited: boolean): void {
-    this.article.favorited = favorited;
+  private reload(): void {
+    this.articleService
+      .get(this.slug()!, true)
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({ error: () => {} });
+    this.loadComments();
+  }
 
-    if (favorited) {
-      this.article.favoritesCount++;
-    } else {
-      this.article.favoritesCount--;
-    }
+  loadComments(): void {
+    // Replaces a load still running for the previous article
+    this.commentsLoad?.unsubscribe();
+    this.commentsLoading.set(LoadingState.LOADING);
+    this.commentsLoad = this.commentsService
+      .getAll(this.slug()!)
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: (comments) => {
+          this.commentsLoading.set(LoadingState.LOADED);
+          this.loadedComments.set(comments);
+        },
+        error: (error) => this.commentsLoading.set(LoadingState.error(error)),
+      });
   }
 
-  toggleFollowing(profile: Profile): void {
-    this.article.author.following = profile.following;
+  renderBody(body: string): void {
+    this.renderedBody = body;
+    from(this.markdownService.render(body))
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe((rendered) => this.body.set(rendered));
   }
 
   deleteArticle(): void {
-    this.isDeleting = true;
+    this.isDeleting.set(true);
 
     this.articleService
-      .delete(this.article.slug)
+      .delete(this.slug()!)
       .pipe(takeUntilDestroyed(this.destroyRef))
-      .subscribe(() => {
-        void this.router.navigate(["/"]);
+      .subscribe({
+        next: () => void this.router.navigate(["/"]),
+        error: (err) => {
+          this.isDeleting.set(false);
+          this.notificationService.error("Could not delete the article.", err);
+        },
       });
   }
 
   addComment() {
-    this.isSubmitting = true;
-    this.commentFormErrors = null;
+    this.isSubmitting.set(true);
+    this.commentFormErrors.set(null);
 
     this.commentsService
-      .add(this.article.slug, this.commentControl.value)
+      .add(this.slug()!, this.commentControl.value)
       .pipe(takeUntilDestroyed(this.destroyRef))
       .subscribe({
         next: (comment) => {
-          this.comments.unshift(comment);
+          this.loadedComments.update((comments) => [comment, ...comments]);
           this.commentControl.reset("");
-          this.isSubmitting = false;
+          this.isSubmitting.set(false);
         },
         error: (errors) => {
-          this.isSubmitting = false;
-          this.commentFormErrors = errors;
+          this.isSubmitting.set(false);
+          // It shows up once it has been sent
+          if (isQueued(errors)) {
+            this.commentControl.reset("");
+            return;
+          }
+          this.commentFormErrors.set(errors);
         },
       });
   }
 
   deleteComment(comment: Comment): void {
     this.commentsService
-      .delete(comment.id, this.article.slug)
+      .delete(comment.id, this.slug()!)
       .pipe(takeUntilDestroyed(this.destroyRef))
-      .subscribe(() => {
-        this.comments = this.comments.filter((item) => item !== comment);
+      .subscribe({
+        next: () => {
+          this.loadedComments.update((comments) =>
+            comments.filter(({ id }) => id !== comment.id),
+          );
+        },
+        error: (err) =>
+          this.notificationService.error("Could not delete the comment.", err),
       });
   }
 }
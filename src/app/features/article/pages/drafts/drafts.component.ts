@@ -0,0 +1,58 @@
+import {
+  ChangeDetectionStrategy,
+  Component,
+  DestroyRef,
+  inject,
+  OnInit,
+  signal,
+} from "@angular/core";
+import { RouterLink } from "@angular/router";
+import { DatePipe } from "@angular/common";
+import { takeUntilDestroyed } from "@angular/core/rxjs-interop";
+import { UserService } from "../../../../core/auth/services/user.service";
+import { Draft } from "../../models/draft.model";
+import {
+  DraftsService,
+  NEW_ARTICLE_DRAFT,
+} from "../../services/drafts.service";
+
+@Component({
+  selector: "app-drafts-page",
+  templateUrl: "./drafts.component.html",
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  imports: [RouterLink, DatePipe],
+})
+export default class DraftsComponent implements OnInit {
+  drafts = signal<Draft[]>([]);
+  username = signal<string | null>(null);
+  NEW_ARTICLE_DRAFT = NEW_ARTICLE_DRAFT;
+  destroyRef = inject(DestroyRef);
+
+  constructor(
+    private readonly draftsService: DraftsService,
+    private readonly userService: UserService,
+  ) {}
+
+  ngOnInit(): void {
+    this.userService.currentUser$
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe((user) => {
+        this.username.set(user?.username ?? null);
+        this.drafts.set(user ? this.draftsService.getAll(user.username) : []);
+      });
+  }
+
+  editorLink(draft: Draft): string[] {
+    return draft.key === NEW_ARTICLE_DRAFT
+      ? ["/editor"]
+      : ["/editor", draft.key];
+  }
+
+  discard(draft: Draft): void {
+    const username = this.username();
+    if (username) {
+      this.draftsService.discard(username, draft.key);
+      this.drafts.update((drafts) => drafts.filter((item) => item !== draft));
+    }
+  }
+}
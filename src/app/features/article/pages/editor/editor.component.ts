@@ -1,4 +1,12 @@
-import { Component, DestroyRef, inject, OnInit } from "@angular/core";
+import {
+  ChangeDetectionStrategy,
+  Component,
+  DestroyRef,
+  HostListener,
+  inject,
+  OnInit,
+  signal,
+} from "@angular/core";
 import {
   FormControl,
   FormGroup,
@@ -6,12 +14,28 @@ import {
   UntypedFormGroup,
 } from "@angular/forms";
 import { ActivatedRoute, Router } from "@angular/router";
-import { combineLatest } from "rxjs";
+import { combineLatest, EMPTY, merge, Observable, Subject } from "rxjs";
+import { debounceTime, filter, switchMap, take } from "rxjs/operators";
+import { AsyncPipe, DatePipe, NgClass } from "@angular/common";
 import { Errors } from "../../../../core/models/errors.model";
+import { Article } from "../../models/article.model";
+import { Draft } from "../../models/draft.model";
 import { ArticlesService } from "../../services/articles.service";
+import {
+  DraftsService,
+  NEW_ARTICLE_DRAFT,
+} from "../../services/drafts.service";
 import { UserService } from "../../../../core/auth/services/user.service";
+import { User } from "../../../../core/auth/user.model";
 import { ListErrorsComponent } from "../../../../shared/components/list-errors.component";
+import { MarkdownPipe } from "../../../../shared/pipes/markdown.pipe";
+import { MarkdownToolbarComponent } from "../../components/markdown-toolbar.component";
 import { takeUntilDestroyed } from "@angular/core/rxjs-interop";
+import { isQueued } from "../../../../core/offline/offline-queue.service";
+
+const AUTOSAVE_DELAY_MS = 1000;
+
+type EditorMode = "write" | "preview" | "split";
 
 interface ArticleForm {
   title: FormControl<string>;
@@ -22,10 +46,32 @@ interface ArticleForm {
 @Component({
   selector: "app-editor-page",
   templateUrl: "./editor.component.html",
-  imports: [ListErrorsComponent, ReactiveFormsModule],
+  styleUrls: ["./editor.component.css"],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  imports: [
+    ListErrorsComponent,
+    ReactiveFormsModule,
+    DatePipe,
+    NgClass,
+    AsyncPipe,
+    MarkdownPipe,
+    MarkdownToolbarComponent,
+  ],
 })
 export default class EditorComponent implements OnInit {
-  tagList: string[] = [];
+  // The article being edited, as last loaded from the server
+  article = signal<Article | null>(null);
+  // Newer server copy found while saving, shown instead of overwriting it
+  conflict = signal<Article | null>(null);
+  // Draft found on open, waiting for the user to restore or discard it
+  pendingDraft = signal<Draft | null>(null);
+  mode = signal<EditorMode>("write");
+  editorModes: { mode: EditorMode; label: string }[] = [
+    { mode: "write", label: "Write" },
+    { mode: "preview", label: "Preview" },
+    { mode: "split", label: "Side by side" },
+  ];
+  tagList = signal<string[]>([]);
   articleForm: UntypedFormGroup = new FormGroup<ArticleForm>({
     title: new FormControl("", { nonNullable: true }),
     description: new FormControl("", { nonNullable: true }),
@@ -33,12 +79,17 @@ export default class EditorComponent implements OnInit {
   });
   tagField = new FormControl<string>("", { nonNullable: true });
 
-  errors: Errors | null = null;
-  isSubmitting = false;
+  errors = signal<Errors | null>(null);
+  isSubmitting = signal(false);
   destroyRef = inject(DestroyRef);
 
+  private draftOwner: string | null = null;
+  private draftKey = NEW_ARTICLE_DRAFT;
+  private readonly tagListChanges = new Subject<void>();
+
   constructor(
     private readonly articleService: ArticlesService,
+    private readonly draftsService: DraftsService,
     private readonly route: ActivatedRoute,
     private readonly router: Router,
     private readonly userService: UserService,
@@ -47,18 +98,26 @@ export default class EditorComponent implements OnInit {
   ngOnInit() {
     if (this.route.snapshot.params["slug"]) {
       combineLatest([
-        this.articleService.get(this.route.snapshot.params["slug"]),
+        // Edits are checked against this copy, so it must not be cached
+        this.articleService.get(this.route.snapshot.params["slug"], true),
         this.userService.getCurrentUser(),
       ])
         .pipe(takeUntilDestroyed(this.destroyRef))
+        // canEditArticle has already checked that this is the author
         .subscribe(([article, { user }]) => {
-          if (user.username === article.author.username) {
-            this.tagList = article.tagList;
-            this.articleForm.patchValue(article);
-          } else {
-            void this.router.navigate(["/"]);
-          }
+          this.loadArticle(article);
+          this.startDrafts(user.username, article.slug);
         });
+    } else {
+      this.userService.currentUser$
+        .pipe(
+          filter((user): user is User => !!user),
+          take(1),
+          takeUntilDestroyed(this.destroyRef),
+        )
+        .subscribe((user) =>
+          this.startDrafts(user.username, NEW_ARTICLE_DRAFT),
+        );
     }
   }
 
@@ -66,36 +125,163 @@ export default class EditorComponent implements OnInit {
     // retrieve tag control
     const tag = this.tagField.value;
     // only add tag if it does not exist yet
-    if (tag != null && tag.trim() !== "" && this.tagList.indexOf(tag) < 0) {
-      this.tagList.push(tag);
+    if (tag != null && tag.trim() !== "" && !this.tagList().includes(tag)) {
+      this.tagList.update((tagList) => [...tagList, tag]);
     }
     // clear the input
     this.tagField.reset("");
+    this.tagListChanges.next();
   }
 
   removeTag(tagName: string): void {
-    this.tagList = this.tagList.filter((tag) => tag !== tagName);
+    this.tagList.update((tagList) => tagList.filter((tag) => tag !== tagName));
+    this.tagListChanges.next();
+  }
+
+  restoreDraft(draft = this.pendingDraft()): void {
+    if (draft) {
+      this.pendingDraft.set(null);
+      this.tagList.set([...draft.tagList]);
+      this.articleForm.patchValue(draft);
+    }
+  }
+
+  discardDraft(): void {
+    this.pendingDraft.set(null);
+    if (this.draftOwner) {
+      this.draftsService.discard(this.draftOwner, this.draftKey);
+    }
+  }
+
+  @HostListener("window:beforeunload")
+  saveDraft(): void {
+    // Never overwrite a draft the user has not decided about yet
+    if (!this.draftOwner || this.pendingDraft()) {
+      return;
+    }
+
+    const draft = {
+      key: this.draftKey,
+      ...this.articleForm.getRawValue(),
+      tagList: [...this.tagList()],
+    };
+    if (this.isUnchanged(draft)) {
+      this.draftsService.discard(this.draftOwner, this.draftKey);
+    } else {
+      this.draftsService.save(this.draftOwner, draft);
+    }
   }
 
   submitForm(): void {
-    this.isSubmitting = true;
+    this.isSubmitting.set(true);
+    this.errors.set(null);
 
     // update any single tag
     this.addTag();
 
+    const changes: Partial<Article> = {
+      ...this.articleForm.value,
+      tagList: this.tagList(),
+    };
+    const article = this.article();
+    const save$ = article
+      ? this.updateArticle(article, changes)
+      : this.articleService.create(changes);
+
     // post the changes
-    this.articleService
-      .create({
-        ...this.articleForm.value,
-        tagList: this.tagList,
-      })
-      .pipe(takeUntilDestroyed(this.destroyRef))
-      .subscribe({
-        next: (article) => this.router.navigate(["/article/", article.slug]),
-        error: (err) => {
-          this.errors = err;
-          this.isSubmitting = false;
-        },
-      });
+    save$.pipe(takeUntilDestroyed(this.destroyRef)).subscribe({
+      next: (saved) => {
+        this.discardDraft();
+        this.draftOwner = null;
+        void this.router.navigate(["/article/", saved.slug]);
+      },
+      error: (err) => {
+        // The queue holds the changes now, so the draft is no longer needed
+        if (isQueued(err)) {
+          this.discardDraft();
+          this.draftOwner = null;
+          void this.router.navigate(["/"]);
+          return;
+        }
+        this.errors.set(err);
+        this.isSubmitting.set(false);
+      },
+    });
+  }
+
+  // Keep my changes and save them over the newer server copy
+  overwriteConflict(): void {
+    this.article.set(this.conflict());
+    this.conflict.set(null);
+    this.submitForm();
+  }
+
+  // Drop my changes and continue from the newer server copy
+  discardChanges(): void {
+    const conflict = this.conflict();
+    if (conflict) {
+      this.loadArticle(conflict);
+    }
+  }
+
+  private loadArticle(article: Article): void {
+    this.article.set(article);
+    this.conflict.set(null);
+    this.tagList.set([...article.tagList]);
+    this.articleForm.patchValue(article);
+  }
+
+  private startDrafts(username: string, key: string): void {
+    this.draftOwner = username;
+    this.draftKey = key;
+
+    const draft = this.draftsService.get(username, key);
+    if (draft && !this.isUnchanged(draft)) {
+      if (this.route.snapshot.queryParamMap.has("restoreDraft")) {
+        this.restoreDraft(draft);
+      } else {
+        this.pendingDraft.set(draft);
+      }
+    }
+
+    merge(this.articleForm.valueChanges, this.tagListChanges)
+      .pipe(
+        debounceTime(AUTOSAVE_DELAY_MS),
+        takeUntilDestroyed(this.destroyRef),
+      )
+      .subscribe(() => this.saveDraft());
+    this.destroyRef.onDestroy(() => this.saveDraft());
+  }
+
+  // Whether the content matches what is already published (or is empty)
+  private isUnchanged(content: Omit<Draft, "key" | "savedAt">): boolean {
+    const saved = this.article() ?? {
+      title: "",
+      description: "",
+      body: "",
+      tagList: [],
+    };
+    return (
+      content.title === saved.title &&
+      content.description === saved.description &&
+      content.body === saved.body &&
+      content.tagList.join("\n") === saved.tagList.join("\n")
+    );
+  }
+
+  private updateArticle(
+    article: Article,
+    changes: Partial<Article>,
+  ): Observable<Article> {
+    return this.articleService.get(article.slug, true).pipe(
+      switchMap((latest) => {
+        if (latest.updatedAt !== article.updatedAt) {
+          this.conflict.set(latest);
+          this.isSubmitting.set(false);
+          return EMPTY;
+        }
+        return this.articleService.update(article.slug, changes);
+      }),
+    );
   }
 }
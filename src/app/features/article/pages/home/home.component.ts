@@ -1,63 +1,137 @@
-import { Component, DestroyRef, inject, OnInit } from "@angular/core";
-import { Router } from "@angular/router";
+import {
+  ChangeDetectionStrategy,
+  Component,
+  DestroyRef,
+  inject,
+  OnInit,
+  signal,
+} from "@angular/core";
+import { ActivatedRoute, ParamMap, Router } from "@angular/router";
 import { TagsService } from "../../services/tags.service";
 import { ArticleListConfig } from "../../models/article-list-config.model";
 import { NgClass } from "@angular/common";
 import { ArticleListComponent } from "../../components/article-list.component";
-import { tap } from "rxjs/operators";
+import { combineLatest } from "rxjs";
+import { distinctUntilChanged, map } from "rxjs/operators";
 import { UserService } from "../../../../core/auth/services/user.service";
-import { RxLet } from "@rx-angular/template/let";
 import { IfAuthenticatedDirective } from "../../../../core/auth/if-authenticated.directive";
 import { takeUntilDestroyed } from "@angular/core/rxjs-interop";
+import { LoadingState } from "../../../../core/models/loading-state.model";
+import { SkeletonComponent } from "../../../../shared/components/skeleton.component";
+import { LoadErrorComponent } from "../../../../shared/components/load-error.component";
+
+// Feed state kept in the query params, e.g. /?feed=global&tag=angular&page=3
+interface FeedState {
+  feed: "your" | "global";
+  tag: string | null;
+  page: number;
+}
 
 @Component({
   selector: "app-home-page",
   templateUrl: "./home.component.html",
   styleUrls: ["./home.component.css"],
-  imports: [NgClass, ArticleListComponent, RxLet, IfAuthenticatedDirective],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  imports: [
+    NgClass,
+    ArticleListComponent,
+    IfAuthenticatedDirective,
+    SkeletonComponent,
+    LoadErrorComponent,
+  ],
 })
 export default class HomeComponent implements OnInit {
-  isAuthenticated = false;
-  listConfig: ArticleListConfig = {
+  listConfig = signal<ArticleListConfig>({
     type: "all",
     filters: {},
-  };
-  tags$ = inject(TagsService)
-    .getAll()
-    .pipe(tap(() => (this.tagsLoaded = true)));
-  tagsLoaded = false;
+  });
+  page = signal(1);
+  tags = signal<string[]>([]);
+  tagsLoading = signal<LoadingState>(LoadingState.NOT_LOADED);
   destroyRef = inject(DestroyRef);
 
   constructor(
+    private readonly route: ActivatedRoute,
     private readonly router: Router,
     private readonly userService: UserService,
+    private readonly tagsService: TagsService,
   ) {}
 
   ngOnInit(): void {
-    this.userService.isAuthenticated
+    this.loadTags();
+
+    combineLatest([this.route.queryParamMap, this.userService.isAuthenticated$])
       .pipe(
-        tap((isAuthenticated) => {
-          if (isAuthenticated) {
-            this.setListTo("feed");
-          } else {
-            this.setListTo("all");
-          }
-        }),
+        map(([params, isAuthenticated]) => feedState(params, isAuthenticated)),
+        distinctUntilChanged(
+          (a, b) => a.feed === b.feed && a.tag === b.tag && a.page === b.page,
+        ),
         takeUntilDestroyed(this.destroyRef),
       )
-      .subscribe(
-        (isAuthenticated: boolean) => (this.isAuthenticated = isAuthenticated),
-      );
+      .subscribe(({ feed, tag, page }) => {
+        const type = feed === "your" ? "feed" : "all";
+        const current = this.listConfig();
+        // A new config reloads the list; for a page change the page does
+        if (
+          current.type !== type ||
+          current.filters.tag !== (tag ?? undefined)
+        ) {
+          this.listConfig.set({ type, filters: tag ? { tag } : {} });
+        }
+        this.page.set(page);
+      });
+  }
+
+  loadTags(): void {
+    this.tagsLoading.set(LoadingState.LOADING);
+    this.tagsService
+      .getAll()
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe({
+        next: (tags) => {
+          this.tags.set(tags);
+          this.tagsLoading.set(LoadingState.LOADED);
+        },
+        error: (error) => this.tagsLoading.set(LoadingState.error(error)),
+      });
   }
 
-  setListTo(type: string = "", filters: Object = {}): void {
+  setListTo(type: string = "", filters: { tag?: string } = {}): void {
     // If feed is requested but user is not authenticated, redirect to login
-    if (type === "feed" && !this.isAuthenticated) {
+    if (type === "feed" && !this.userService.isAuthenticated()) {
       void this.router.navigate(["/login"]);
       return;
     }
 
-    // Otherwise, set the list object
-    this.listConfig = { type: type, filters: filters };
+    // Otherwise, put the list in the URL, which updates the list config
+    void this.router.navigate([], {
+      relativeTo: this.route,
+      queryParams: filters.tag
+        ? { tag: filters.tag }
+        : { feed: type === "feed" ? "your" : "global" },
+    });
   }
+
+  // A correction replaces the page that does not exist, so Back skips it
+  setPageTo(page: number, correction = false): void {
+    void this.router.navigate([], {
+      relativeTo: this.route,
+      queryParams: { page: page > 1 ? page : null },
+      queryParamsHandling: "merge",
+      replaceUrl: correction,
+    });
+  }
+}
+
+// Missing or invalid params fall back to the default feed and the first page
+function feedState(params: ParamMap, isAuthenticated: boolean): FeedState {
+  const tag = params.get("tag")?.trim() || null;
+  const page = Number(params.get("page"));
+  const feed = params.get("feed");
+  return {
+    // Signed in users default to their own feed; tags are global only
+    feed: !tag && isAuthenticated && feed !== "global" ? "your" : "global",
+    tag,
+    page: Number.isInteger(page) && page > 0 ? page : 1,
+  };
 }
@@ -0,0 +1,172 @@
+import {
+  ChangeDetectionStrategy,
+  Component,
+  DestroyRef,
+  inject,
+  OnInit,
+  signal,
+} from "@angular/core";
+import { FormControl, FormGroup, ReactiveFormsModule } from "@angular/forms";
+import { ActivatedRoute, ParamMap, Router } from "@angular/router";
+import { AsyncPipe } from "@angular/common";
+import { takeUntilDestroyed } from "@angular/core/rxjs-interop";
+import { EMPTY, merge, Subject } from "rxjs";
+import { catchError, debounceTime, map, switchMap, tap } from "rxjs/operators";
+import { LoadingState } from "../../../../core/models/loading-state.model";
+import { PaginationComponent } from "../../../../shared/components/pagination.component";
+import { SkeletonComponent } from "../../../../shared/components/skeleton.component";
+import { LoadErrorComponent } from "../../../../shared/components/load-error.component";
+import { ArticlePreviewComponent } from "../../components/article-preview.component";
+import { ArticleSearchService } from "../../services/article-search.service";
+import { TagsService } from "../../services/tags.service";
+import {
+  ArticleSearchCriteria,
+  ArticleSearchResult,
+} from "../../models/article-search.model";
+
+const PAGE_SIZE = 10;
+const TYPING_DEBOUNCE_MS = 300;
+
+@Component({
+  selector: "app-search-page",
+  templateUrl: "./search.component.html",
+  styleUrls: ["./search.component.css"],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+  imports: [
+    ReactiveFormsModule,
+    AsyncPipe,
+    ArticlePreviewComponent,
+    PaginationComponent,
+    SkeletonComponent,
+    LoadErrorComponent,
+  ],
+})
+export default class SearchComponent implements OnInit {
+  filtersForm = new FormGroup({
+    text: new FormControl("", { nonNullable: true }),
+    author: new FormControl("", { nonNullable: true }),
+    favoritedBy: new FormControl("", { nonNullable: true }),
+  });
+  tagField = new FormControl("", { nonNullable: true });
+  tags = signal<string[]>([]);
+  page = signal(1);
+
+  result = signal<ArticleSearchResult | null>(null);
+  totalPages = signal(0);
+  loading = signal<LoadingState>(LoadingState.NOT_LOADED);
+
+  popularTags$ = inject(TagsService).getAll();
+  private retries = new Subject<void>();
+  destroyRef = inject(DestroyRef);
+
+  constructor(
+    private readonly route: ActivatedRoute,
+    private readonly router: Router,
+    private readonly searchService: ArticleSearchService,
+  ) {}
+
+  ngOnInit(): void {
+    // The URL holds the filters; the form only writes to it
+    merge(
+      this.route.queryParamMap,
+      this.retries.pipe(map(() => this.route.snapshot.queryParamMap)),
+    )
+      .pipe(
+        map((params) => ({ ...searchCriteria(params), page: page(params) })),
+        tap(({ text, author, favoritedBy, tags, page }) => {
+          this.filtersForm.setValue(
+            { text, author: author ?? "", favoritedBy: favoritedBy ?? "" },
+            { emitEvent: false },
+          );
+          this.tags.set(tags);
+          this.page.set(page);
+          this.loading.set(LoadingState.LOADING);
+        }),
+        switchMap(({ page, ...criteria }) =>
+          this.searchService.search(criteria, page, PAGE_SIZE).pipe(
+            // Keep listening to the URL after a failed search
+            catchError((error) => {
+              this.loading.set(LoadingState.error(error));
+              return EMPTY;
+            }),
+          ),
+        ),
+        takeUntilDestroyed(this.destroyRef),
+      )
+      .subscribe((result) => {
+        this.result.set(result);
+        this.totalPages.set(Math.ceil(result.articlesCount / PAGE_SIZE));
+        this.loading.set(LoadingState.LOADED);
+      });
+
+    // Typing replaces the history entry instead of adding one per keystroke
+    this.filtersForm.valueChanges
+      .pipe(
+        debounceTime(TYPING_DEBOUNCE_MS),
+        takeUntilDestroyed(this.destroyRef),
+      )
+      .subscribe(() => this.updateUrl({ page: null }, true));
+  }
+
+  retry(): void {
+    this.retries.next();
+  }
+
+  addTag(tag = this.tagField.value.trim()): void {
+    this.tagField.reset("");
+    if (tag && !this.tags().includes(tag)) {
+      this.updateUrl({ tag: [...this.tags(), tag], page: null });
+    }
+  }
+
+  removeTag(tagName: string): void {
+    this.updateUrl({
+      tag: this.tags().filter((tag) => tag !== tagName),
+      page: null,
+    });
+  }
+
+  setPageTo(page: number): void {
+    this.updateUrl({ page: page > 1 ? page : null });
+  }
+
+  clearFilters(): void {
+    void this.router.navigate([], { relativeTo: this.route });
+  }
+
+  private updateUrl(
+    changes: { [param: string]: string | string[] | number | null },
+    replaceUrl = false,
+  ): void {
+    const { text, author, favoritedBy } = this.filtersForm.getRawValue();
+    void this.router.navigate([], {
+      relativeTo: this.route,
+      queryParams: {
+        q: text.trim() || null,
+        tag: this.tags(),
+        author: author.trim() || null,
+        favorited: favoritedBy.trim() || null,
+        page: this.page() > 1 ? this.page() : null,
+        ...changes,
+      },
+      replaceUrl,
+    });
+  }
+}
+
+function searchCriteria(params: ParamMap): ArticleSearchCriteria {
+  return {
+    text: params.get("q")?.trim() ?? "",
+    tags: [...new Set(params.getAll("tag").map((tag) => tag.trim()))].filter(
+      Boolean,
+    ),
+    author: params.get("author")?.trim() || null,
+    favoritedBy: params.get("favorited")?.trim() || null,
+  };
+}
+
+// Anything but a positive whole number means the first page
+function page(params: ParamMap): number {
+  const page = Number(params.get("page"));
+  return Number.isInteger(page) && page > 0 ? page : 1;
+}
@@ -0,0 +1,31 @@
+import { Injectable } from "@angular/core";
+import { Article } from "../models/article.model";
+
+export interface ArticleListState {
+  articles: Article[];
+  page: number;
+  articlesCount: number;
+  scrollY: number;
+}
+
+// Only the most recent lists are worth going back to
+const MAX_STATES = 10;
+
+// Remembers infinite lists, so going back restores them where the user left
+@Injectable({ providedIn: "root" })
+export class ArticleListStateService {
+  private states = new Map<string, ArticleListState>();
+
+  get(key: string): ArticleListState | null {
+    return this.states.get(key) ?? null;
+  }
+
+  save(key: string, state: ArticleListState): void {
+    this.states.delete(key);
+    this.states.set(key, state);
+
+    if (this.states.size > MAX_STATES) {
+      this.states.delete(this.states.keys().next().value!);
+    }
+  }
+}
@@ -0,0 +1,144 @@
+import { Injectable } from "@angular/core";
+import { EMPTY, forkJoin, Observable, of } from "rxjs";
+import { expand, map, reduce, tap } from "rxjs/operators";
+import { ArticlesService } from "./articles.service";
+import { Article } from "../models/article.model";
+import { ArticleListConfig } from "../models/article-list-config.model";
+import {
+  ArticleSearchCriteria,
+  ArticleSearchResult,
+} from "../models/article-search.model";
+
+const BATCH_SIZE = 100;
+// Client-side searches look at this many of the most recent articles
+const MAX_SCANNED_ARTICLES = 500;
+// Paging through a client-side search reuses its matches for this long
+const MATCHES_TTL_MS = 60 * 1000;
+
+interface Matches {
+  key: string;
+  articles: Article[];
+  truncated: boolean;
+  fetchedAt: number;
+}
+
+// Searches articles by criteria the API cannot express on its own (free text,
+// several tags) by fetching the candidates and filtering them on the client
+@Injectable({ providedIn: "root" })
+export class ArticleSearchService {
+  private lastMatches: Matches | null = null;
+
+  constructor(private readonly articlesService: ArticlesService) {}
+
+  search(
+    criteria: ArticleSearchCriteria,
+    page: number,
+    limit: number,
+  ): Observable<ArticleSearchResult> {
+    const offset = limit * (page - 1);
+
+    // One tag and no text: the API filters and counts by itself
+    if (criteria.tags.length <= 1 && !criteria.text.trim()) {
+      return this.articlesService
+        .query(listConfig(criteria, criteria.tags[0], limit, offset))
+        .pipe(map((data) => ({ ...data, truncated: false })));
+    }
+
+    return this.matches(criteria).pipe(
+      map(({ articles, truncated }) => ({
+        articles: articles.slice(offset, offset + limit),
+        articlesCount: articles.length,
+        truncated,
+      })),
+    );
+  }
+
+  private matches(criteria: ArticleSearchCriteria): Observable<Matches> {
+    const key = JSON.stringify(criteria);
+    if (
+      this.lastMatches?.key === key &&
+      Date.now() - this.lastMatches.fetchedAt < MATCHES_TTL_MS
+    ) {
+      return of(this.lastMatches);
+    }
+
+    // The API takes a single tag, so each tag is a query of its own
+    const tags = criteria.tags.length ? criteria.tags : [undefined];
+    const words = criteria.text.toLowerCase().split(/\s+/).filter(Boolean);
+
+    return forkJoin(tags.map((tag) => this.fetchAll(criteria, tag))).pipe(
+      map((results) => {
+        const bySlug = new Map<string, Article>();
+        for (const article of results.flatMap((result) => result.articles)) {
+          bySlug.set(article.slug, article);
+        }
+
+        return {
+          key,
+          articles: [...bySlug.values()]
+            .filter((article) => matchesText(article, words))
+            .sort((a, b) => b.createdAt.localeCompare(a.createdAt)),
+          truncated: results.some((result) => result.truncated),
+          fetchedAt: Date.now(),
+        };
+      }),
+      tap((matches) => (this.lastMatches = matches)),
+    );
+  }
+
+  // Pages through a query, up to MAX_SCANNED_ARTICLES
+  private fetchAll(
+    criteria: ArticleSearchCriteria,
+    tag: string | undefined,
+  ): Observable<{ articles: Article[]; truncated: boolean }> {
+    const batch = (offset: number) =>
+      this.articlesService
+        .query(listConfig(criteria, tag, BATCH_SIZE, offset))
+        .pipe(map((data) => ({ offset, ...data })));
+
+    return batch(0).pipe(
+      expand(({ offset, articlesCount }) => {
+        const next = offset + BATCH_SIZE;
+        return next < articlesCount && next < MAX_SCANNED_ARTICLES
+          ? batch(next)
+          : EMPTY;
+      }),
+      reduce(
+        (all, { articles, articlesCount }) => ({
+          articles: [...all.articles, ...articles],
+          articlesCount,
+        }),
+        { articles: [] as Article[], articlesCount: 0 },
+      ),
+      map(({ articles, articlesCount }) => ({
+        articles,
+        truncated: articlesCount > articles.length,
+      })),
+    );
+  }
+}
+
+function listConfig(
+  criteria: ArticleSearchCriteria,
+  tag: string | undefined,
+  limit: number,
+  offset: number,
+): ArticleListConfig {
+  // Unset filters must be left out, not sent as "undefined"
+  return {
+    type: "all",
+    filters: {
+      ...(tag && { tag }),
+      ...(criteria.author && { author: criteria.author }),
+      ...(criteria.favoritedBy && { favorited: criteria.favoritedBy }),
+      limit,
+      offset,
+    },
+  };
+}
+
+// Every word has to appear in the title or the description
+function matchesText(article: Article, words: string[]): boolean {
+  const text = `${article.title} ${article.description}`.toLowerCase();
+  return words.every((word) => text.includes(word));
+}
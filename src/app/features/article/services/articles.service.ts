@@ -1,13 +1,26 @@
 import { Injectable } from "@angular/core";
-import { HttpClient, HttpParams } from "@angular/common/http";
+import { HttpClient, HttpContext, HttpParams } from "@angular/common/http";
 import { Observable } from "rxjs";
-import { map } from "rxjs/operators";
+import { map, tap } from "rxjs/operators";
 import { ArticleListConfig } from "../models/article-list-config.model";
 import { Article } from "../models/article.model";
+import {
+  BYPASS_CACHE,
+  HttpCacheService,
+} from "../../../core/cache/http-cache.service";
+import { QUEUE_WHEN_OFFLINE } from "../../../core/offline/offline-queue.service";
+import { EntityStoreService } from "../../../core/store/entity-store.service";
+import { InFlightRequests } from "../../../core/cache/in-flight-requests";
 
 @Injectable({ providedIn: "root" })
 export class ArticlesService {
-  constructor(private readonly http: HttpClient) {}
+  private inFlight = new InFlightRequests();
+
+  constructor(
+    private readonly http: HttpClient,
+    private readonly cache: HttpCacheService,
+    private readonly store: EntityStoreService,
+  ) {}
 
   query(
     config: ArticleListConfig,
@@ -20,43 +33,97 @@ export class ArticlesService {
       params = params.set(key, config.filters[key]);
     });
 
-    return this.http.get<{ articles: Article[]; articlesCount: number }>(
-      "/articles" + (config.type === "feed" ? "/feed" : ""),
-      { params },
+    const url = "/articles" + (config.type === "feed" ? "/feed" : "");
+    return this.inFlight.share(`${url}?${params}`, () =>
+      this.http
+        .get<{ articles: Article[]; articlesCount: number }>(url, { params })
+        .pipe(tap((data) => this.store.upsertArticles(data.articles))),
     );
   }
 
-  get(slug: string): Observable<Article> {
-    return this.http
-      .get<{ article: Article }>(`/articles/${slug}`)
-      .pipe(map((data) => data.article));
+  // Pass fresh to skip the response cache, e.g. before overwriting
+  get(slug: string, fresh = false): Observable<Article> {
+    return this.inFlight.share(`/articles/${slug} ${fresh}`, () =>
+      this.http
+        .get<{ article: Article }>(`/articles/${slug}`, {
+          context: new HttpContext().set(BYPASS_CACHE, fresh),
+        })
+        .pipe(
+          map((data) => data.article),
+          tap((article) => this.store.upsertArticles([article])),
+        ),
+    );
   }
 
   delete(slug: string): Observable<void> {
-    return this.http.delete<void>(`/articles/${slug}`);
+    return this.http.delete<void>(`/articles/${slug}`).pipe(
+      tap(() => {
+        this.cache.invalidate(`/articles/${slug}`, "/tags");
+        this.store.removeArticle(slug);
+      }),
+    );
   }
 
   create(article: Partial<Article>): Observable<Article> {
     return this.http
-      .post<{ article: Article }>("/articles/", { article: article })
-      .pipe(map((data) => data.article));
+      .post<{ article: Article }>(
+        "/articles/",
+        { article: article },
+        { context: queueWhenOffline(`publish "${article.title}"`) },
+      )
+      .pipe(
+        map((data) => data.article),
+        tap((article) => {
+          this.cache.invalidate("/tags");
+          this.store.upsertArticles([article]);
+        }),
+      );
   }
 
-  update(article: Partial<Article>): Observable<Article> {
+  // The slug changes when the title does, so it is passed separately
+  update(slug: string, article: Partial<Article>): Observable<Article> {
     return this.http
-      .put<{ article: Article }>(`/articles/${article.slug}`, {
-        article: article,
-      })
-      .pipe(map((data) => data.article));
+      .put<{ article: Article }>(
+        `/articles/${slug}`,
+        { article: article },
+        { context: queueWhenOffline(`update "${article.title}"`) },
+      )
+      .pipe(
+        map((data) => data.article),
+        tap((article) => {
+          this.cache.invalidate(`/articles/${slug}`, "/tags");
+          this.store.removeArticle(slug);
+          this.store.upsertArticles([article]);
+        }),
+      );
   }
 
+  // The caller stores the result: a newer click may have replaced it
   favorite(slug: string): Observable<Article> {
     return this.http
-      .post<{ article: Article }>(`/articles/${slug}/favorite`, {})
-      .pipe(map((data) => data.article));
+      .post<{ article: Article }>(
+        `/articles/${slug}/favorite`,
+        {},
+        { context: queueWhenOffline(`favorite ${slug}`) },
+      )
+      .pipe(
+        map((data) => data.article),
+        tap(() => this.cache.invalidate(`/articles/${slug}`)),
+      );
   }
 
-  unfavorite(slug: string): Observable<void> {
-    return this.http.delete<void>(`/articles/${slug}/favorite`);
+  unfavorite(slug: string): Observable<Article> {
+    return this.http
+      .delete<{ article: Article }>(`/articles/${slug}/favorite`, {
+        context: queueWhenOffline(`unfavorite ${slug}`),
+      })
+      .pipe(
+        map((data) => data.article),
+        tap(() => this.cache.invalidate(`/articles/${slug}`)),
+      );
   }
 }
+
+function queueWhenOffline(label: string): HttpContext {
+  return new HttpContext().set(QUEUE_WHEN_OFFLINE, label);
+}
@@ -1,28 +1,62 @@
 import { Injectable } from "@angular/core";
 import { Observable } from "rxjs";
-import { map } from "rxjs/operators";
-import { HttpClient } from "@angular/common/http";
+import { map, tap } from "rxjs/operators";
+import { HttpClient, HttpContext } from "@angular/common/http";
 import { Comment } from "../models/comment.model";
+import { HttpCacheService } from "../../../core/cache/http-cache.service";
+import { QUEUE_WHEN_OFFLINE } from "../../../core/offline/offline-queue.service";
+import { EntityStoreService } from "../../../core/store/entity-store.service";
+import { InFlightRequests } from "../../../core/cache/in-flight-requests";
 
 @Injectable({ providedIn: "root" })
 export class CommentsService {
-  constructor(private readonly http: HttpClient) {}
+  private inFlight = new InFlightRequests();
+
+  constructor(
+    private readonly http: HttpClient,
+    private readonly cache: HttpCacheService,
+    private readonly store: EntityStoreService,
+  ) {}
 
   getAll(slug: string): Observable<Comment[]> {
-    return this.http
-      .get<{ comments: Comment[] }>(`/articles/${slug}/comments`)
-      .pipe(map((data) => data.comments));
+    // A prefetch may still be loading them when the article page opens
+    return this.inFlight.share(`/articles/${slug}/comments`, () =>
+      this.http.get<{ comments: Comment[] }>(`/articles/${slug}/comments`).pipe(
+        map((data) => data.comments),
+        tap((comments) => this.store.upsertComments(comments)),
+      ),
+    );
   }
 
   add(slug: string, payload: string): Observable<Comment> {
     return this.http
-      .post<{ comment: Comment }>(`/articles/${slug}/comments`, {
-        comment: { body: payload },
-      })
-      .pipe(map((data) => data.comment));
+      .post<{ comment: Comment }>(
+        `/articles/${slug}/comments`,
+        { comment: { body: payload } },
+        {
+          context: new HttpContext().set(
+            QUEUE_WHEN_OFFLINE,
+            `comment on ${slug}`,
+          ),
+        },
+      )
+      .pipe(
+        map((data) => data.comment),
+        tap((comment) => {
+          this.cache.invalidate(`/articles/${slug}/comments`);
+          this.store.upsertComments([comment]);
+        }),
+      );
   }
 
   delete(commentId: string, slug: string): Observable<void> {
-    return this.http.delete<void>(`/articles/${slug}/comments/${commentId}`);
+    return this.http
+      .delete<void>(`/articles/${slug}/comments/${commentId}`)
+      .pipe(
+        tap(() => {
+          this.cache.invalidate(`/articles/${slug}/comments`);
+          this.store.removeComment(commentId);
+        }),
+      );
   }
 }
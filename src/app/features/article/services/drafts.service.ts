@@ -0,0 +1,49 @@
+import { Injectable } from "@angular/core";
+import { Draft } from "../models/draft.model";
+
+export const NEW_ARTICLE_DRAFT = "new";
+
+@Injectable({ providedIn: "root" })
+export class DraftsService {
+  getAll(username: string): Draft[] {
+    return Object.values(this.read(username)).sort((a, b) =>
+      b.savedAt.localeCompare(a.savedAt),
+    );
+  }
+
+  get(username: string, key: string): Draft | null {
+    return this.read(username)[key] ?? null;
+  }
+
+  save(username: string, draft: Omit<Draft, "savedAt">): void {
+    const drafts = this.read(username);
+    drafts[draft.key] = { ...draft, savedAt: new Date().toISOString() };
+    this.write(username, drafts);
+  }
+
+  discard(username: string, key: string): void {
+    const drafts = this.read(username);
+    delete drafts[key];
+    this.write(username, drafts);
+  }
+
+  private read(username: string): { [key: string]: Draft } {
+    try {
+      return JSON.parse(window.localStorage[storageKey(username)] ?? "{}");
+    } catch {
+      return {};
+    }
+  }
+
+  private write(username: string, drafts: { [key: string]: Draft }): void {
+    if (Object.keys(drafts).length) {
+      window.localStorage[storageKey(username)] = JSON.stringify(drafts);
+    } else {
+      window.localStorage.removeItem(storageKey(username));
+    }
+  }
+}
+
+function storageKey(username: string): string {
+  return `drafts:${username}`;
+}
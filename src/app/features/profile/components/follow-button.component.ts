@@ -1,19 +1,13 @@
-import {
-  Component,
-  DestroyRef,
-  EventEmitter,
-  inject,
-  Input,
-  Output,
-} from "@angular/core";
+import { ChangeDetectionStrategy, Component, input } from "@angular/core";
+import { outputFromObservable } from "@angular/core/rxjs-interop";
 import { Router } from "@angular/router";
-import { switchMap } from "rxjs/operators";
-import { EMPTY } from "rxjs";
 import { ProfileService } from "../services/profile.service";
 import { UserService } from "../../../core/auth/services/user.service";
+import { loginUrlTree } from "../../../core/auth/auth.guards";
 import { Profile } from "../models/profile.model";
 import { NgClass } from "@angular/common";
-import { takeUntilDestroyed } from "@angular/core/rxjs-interop";
+import { EntityStoreService } from "../../../core/store/entity-store.service";
+import { OptimisticToggle } from "../../../core/store/optimistic-toggle";
 
 @Component({
   selector: "app-follow-button",
@@ -21,56 +15,53 @@ import { takeUntilDestroyed } from "@angular/core/rxjs-interop";
     <button
       class="btn btn-sm action-btn"
       [ngClass]="{
-        disabled: isSubmitting,
-        'btn-outline-secondary': !profile.following,
-        'btn-secondary': profile.following
+        'btn-outline-secondary': !profile().following,
+        'btn-secondary': profile().following
       }"
       (click)="toggleFollowing()"
     >
       <i class="ion-plus-round"></i>
       &nbsp;
-      {{ profile.following ? "Unfollow" : "Follow" }} {{ profile.username }}
+      {{ profile().following ? "Unfollow" : "Follow" }} {{ profile().username }}
     </button>
   `,
+  changeDetection: ChangeDetectionStrategy.OnPush,
   imports: [NgClass],
 })
 export class FollowButtonComponent {
-  @Input() profile!: Profile;
-  @Output() toggle = new EventEmitter<Profile>();
-  isSubmitting = false;
-  destroyRef = inject(DestroyRef);
+  profile = input.required<Profile>();
+
+  private follow = new OptimisticToggle<Profile>({
+    isOn: (profile) => profile.following,
+    withState: (profile, following) => ({ ...profile, following }),
+    send: (profile, following) =>
+      following
+        ? this.profileService.follow(profile.username)
+        : this.profileService.unfollow(profile.username),
+    store: ({ username, following }) =>
+      this.store.patchProfile(username, { following }),
+    failureMessage: (profile, following) =>
+      `Could not ${following ? "follow" : "unfollow"} ${profile.username}.`,
+  });
+  // Emits the optimistic state at once, then the server's (or a rollback).
+  // Both are written to the entity store as well.
+  toggle = outputFromObservable(this.follow.changes);
 
   constructor(
     private readonly profileService: ProfileService,
     private readonly router: Router,
     private readonly userService: UserService,
+    private readonly store: EntityStoreService,
   ) {}
 
   toggleFollowing(): void {
-    this.isSubmitting = true;
-
-    this.userService.isAuthenticated
-      .pipe(
-        switchMap((isAuthenticated: boolean) => {
-          if (!isAuthenticated) {
-            void this.router.navigate(["/login"]);
-            return EMPTY;
-          }
+    if (!this.userService.isAuthenticated()) {
+      void this.router.navigateByUrl(
+        loginUrlTree(this.router, this.router.url),
+      );
+      return;
+    }
 
-          if (!this.profile.following) {
-            return this.profileService.follow(this.profile.username);
-          } else {
-            return this.profileService.unfollow(this.profile.username);
-          }
-        }),
-        takeUntilDestroyed(this.destroyRef),
-      )
-      .subscribe({
-        next: (profile) => {
-          this.isSubmitting = false;
-          this.toggle.emit(profile);
-        },
-        error: () => (this.isSubmitting = false),
-      });
+    this.follow.toggle(this.profile());
   }
 }
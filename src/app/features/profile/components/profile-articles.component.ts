@@ -1,40 +1,44 @@
-import { Component, DestroyRef, inject, OnInit } from "@angular/core";
+import {
+  ChangeDetectionStrategy,
+  Component,
+  DestroyRef,
+  inject,
+  OnInit,
+  signal,
+} from "@angular/core";
 import { ActivatedRoute } from "@angular/router";
 import { ArticleListComponent } from "../../article/components/article-list.component";
-import { ProfileService } from "../services/profile.service";
 import { Profile } from "../models/profile.model";
 import { ArticleListConfig } from "../../article/models/article-list-config.model";
 import { takeUntilDestroyed } from "@angular/core/rxjs-interop";
 
 @Component({
   selector: "app-profile-articles",
-  template: `<app-article-list [limit]="10" [config]="articlesConfig" />`,
+  template: `
+    @if (articlesConfig(); as config) {
+      <app-article-list [limit]="10" [config]="config" />
+    }
+  `,
+  changeDetection: ChangeDetectionStrategy.OnPush,
   imports: [ArticleListComponent],
 })
 export default class ProfileArticlesComponent implements OnInit {
-  profile!: Profile;
-  articlesConfig!: ArticleListConfig;
+  articlesConfig = signal<ArticleListConfig | null>(null);
   destroyRef = inject(DestroyRef);
 
-  constructor(
-    private route: ActivatedRoute,
-    private readonly profileService: ProfileService,
-  ) {}
+  constructor(private route: ActivatedRoute) {}
 
   ngOnInit(): void {
-    this.profileService
-      .get(this.route.snapshot.params["username"])
-      .pipe(takeUntilDestroyed(this.destroyRef))
-      .subscribe({
-        next: (profile: Profile) => {
-          this.profile = profile;
-          this.articlesConfig = {
-            type: "all",
-            filters: {
-              author: this.profile.username,
-            },
-          };
-        },
-      });
+    // The parent route resolves the profile; followed when it changes
+    this.route
+      .parent!.data.pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe((data) =>
+        this.articlesConfig.set({
+          type: "all",
+          filters: {
+            author: (data["profile"] as Profile).username,
+          },
+        }),
+      );
   }
 }
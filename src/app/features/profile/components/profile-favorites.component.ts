@@ -1,40 +1,44 @@
-import { Component, DestroyRef, inject, OnInit } from "@angular/core";
+import {
+  ChangeDetectionStrategy,
+  Component,
+  DestroyRef,
+  inject,
+  OnInit,
+  signal,
+} from "@angular/core";
 import { ActivatedRoute } from "@angular/router";
 import { ArticleListComponent } from "../../article/components/article-list.component";
-import { ProfileService } from "../services/profile.service";
 import { Profile } from "../models/profile.model";
 import { ArticleListConfig } from "../../article/models/article-list-config.model";
 import { takeUntilDestroyed } from "@angular/core/rxjs-interop";
 
 @Component({
   selector: "app-profile-favorites",
-  template: `<app-article-list [limit]="10" [config]="favoritesConfig" />`,
+  template: `
+    @if (favoritesConfig(); as config) {
+      <app-article-list [limit]="10" [config]="config" />
+    }
+  `,
+  changeDetection: ChangeDetectionStrategy.OnPush,
   imports: [ArticleListComponent],
 })
 export default class ProfileFavoritesComponent implements OnInit {
-  profile!: Profile;
-  favoritesConfig!: ArticleListConfig;
+  favoritesConfig = signal<ArticleListConfig | null>(null);
   destroyRef = inject(DestroyRef);
 
-  constructor(
-    private route: ActivatedRoute,
-    private readonly profileService: ProfileService,
-  ) {}
+  constructor(private route: ActivatedRoute) {}
 
-  ngOnInit() {
-    this.profileService
-      .get(this.route.parent?.snapshot.params["username"])
-      .pipe(takeUntilDestroyed(this.destroyRef))
-      .subscribe({
-        next: (profile: Profile) => {
-          this.profile = profile;
-          this.favoritesConfig = {
-            type: "all",
-            filters: {
-              favorited: this.profile.username,
-            },
-          };
-        },
-      });
+  ngOnInit(): void {
+    // The parent route resolves the profile; followed when it changes
+    this.route
+      .parent!.data.pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe((data) =>
+        this.favoritesConfig.set({
+          type: "all",
+          filters: {
+            favorited: (data["profile"] as Profile).username,
+          },
+        }),
+      );
   }
 }
@@ -1,62 +1,84 @@
-import { Component, DestroyRef, inject, OnInit } from "@angular/core";
+import {
+  ChangeDetectionStrategy,
+  Component,
+  computed,
+  DestroyRef,
+  inject,
+  OnInit,
+  signal,
+} from "@angular/core";
 import {
   ActivatedRoute,
-  Router,
   RouterLink,
   RouterLinkActive,
   RouterOutlet,
 } from "@angular/router";
-import { catchError, switchMap } from "rxjs/operators";
-import { combineLatest, of, throwError } from "rxjs";
-import { UserService } from "../../../../core/auth/services/user.service";
 import { Profile } from "../../models/profile.model";
-import { ProfileService } from "../../services/profile.service";
 import { takeUntilDestroyed } from "@angular/core/rxjs-interop";
 import { FollowButtonComponent } from "../../components/follow-button.component";
+import { IfCanDirective } from "../../../../core/auth/if-can.directive";
+import { EntityStoreService } from "../../../../core/store/entity-store.service";
+import { ProfileService } from "../../services/profile.service";
+import { UserService } from "../../../../core/auth/services/user.service";
+import { EMPTY } from "rxjs";
+import {
+  catchError,
+  distinctUntilChanged,
+  map,
+  skip,
+  switchMap,
+} from "rxjs/operators";
 
 @Component({
   selector: "app-profile-page",
   templateUrl: "./profile.component.html",
+  changeDetection: ChangeDetectionStrategy.OnPush,
   imports: [
     FollowButtonComponent,
     RouterLink,
     RouterLinkActive,
     RouterOutlet,
-    FollowButtonComponent,
+    IfCanDirective,
   ],
 })
 export class ProfileComponent implements OnInit {
-  profile!: Profile;
-  isUser: boolean = false;
+  private resolved = signal<Profile | null>(null);
+  username = computed(() => this.resolved()?.username ?? null);
+  // Read from the store, so follows made elsewhere show up, or the resolved
+  // profile while a sign-out has left the store empty
+  profile = computed(() => {
+    const resolved = this.resolved();
+    return resolved ? this.store.profile(resolved.username) ?? resolved : null;
+  });
   destroyRef = inject(DestroyRef);
 
   constructor(
     private readonly route: ActivatedRoute,
-    private readonly router: Router,
-    private readonly userService: UserService,
+    private readonly store: EntityStoreService,
     private readonly profileService: ProfileService,
+    private readonly userService: UserService,
   ) {}
 
   ngOnInit() {
-    this.profileService
-      .get(this.route.snapshot.params["username"])
+    // Loaded by profileResolver, which also handles a missing profile. The
+    // component is reused when only the username changes.
+    this.route.data
+      .pipe(takeUntilDestroyed(this.destroyRef))
+      .subscribe((data) => this.resolved.set(data["profile"] as Profile));
+
+    // Follows belong to the signed-in user
+    this.userService.currentUser$
       .pipe(
-        catchError((error) => {
-          void this.router.navigate(["/"]);
-          return throwError(() => error);
-        }),
-        switchMap((profile) => {
-          return combineLatest([of(profile), this.userService.currentUser]);
-        }),
+        map((user) => user?.username),
+        distinctUntilChanged(),
+        skip(1),
+        switchMap(() =>
+          this.profileService
+            .get(this.username()!)
+            .pipe(catchError(() => EMPTY)),
+        ),
         takeUntilDestroyed(this.destroyRef),
       )
-      .subscribe(([profile, user]) => {
-        this.profile = profile;
-        this.isUser = profile.username === user?.username;
-      });
-  }
-
-  onToggleFollowing(profile: Profile) {
-    this.profile = profile;
+      .subscribe();
   }
 }
@@ -0,0 +1,14 @@
+import { inject } from "@angular/core";
+import { ResolveFn, Router } from "@angular/router";
+import { of } from "rxjs";
+import { catchError } from "rxjs/operators";
+import { ProfileService } from "./services/profile.service";
+import { Profile } from "./models/profile.model";
+import { loadFailed } from "../../core/errors/load-failed";
+
+export const profileResolver: ResolveFn<Profile> = (route) => {
+  const router = inject(Router);
+  return inject(ProfileService)
+    .get(route.paramMap.get("username")!)
+    .pipe(catchError((error) => of(loadFailed(router, error, "profile"))));
+};
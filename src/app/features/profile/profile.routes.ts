@@ -1,5 +1,6 @@
 import { Routes } from "@angular/router";
 import { ProfileComponent } from "./pages/profile/profile.component";
+import { profileResolver } from "./profile.resolver";
 
 const routes: Routes = [
   {
@@ -8,11 +9,13 @@ const routes: Routes = [
       {
         path: ":username",
         component: ProfileComponent,
+        resolve: { profile: profileResolver },
         children: [
           {
             path: "",
             loadComponent: () =>
               import("./components/profile-articles.component"),
+            data: { prefetch: "profile" },
           },
           {
             path: "favorites",
@@ -1,29 +1,68 @@
 import { Injectable } from "@angular/core";
 import { Observable } from "rxjs";
-import { map, shareReplay } from "rxjs/operators";
+import { map, tap } from "rxjs/operators";
 import { Profile } from "../models/profile.model";
-import { HttpClient } from "@angular/common/http";
+import { HttpClient, HttpContext } from "@angular/common/http";
+import { HttpCacheService } from "../../../core/cache/http-cache.service";
+import { QUEUE_WHEN_OFFLINE } from "../../../core/offline/offline-queue.service";
+import { EntityStoreService } from "../../../core/store/entity-store.service";
+import { InFlightRequests } from "../../../core/cache/in-flight-requests";
 
 @Injectable({ providedIn: "root" })
 export class ProfileService {
-  constructor(private readonly http: HttpClient) {}
+  private inFlight = new InFlightRequests();
+
+  constructor(
+    private readonly http: HttpClient,
+    private readonly cache: HttpCacheService,
+    private readonly store: EntityStoreService,
+  ) {}
 
   get(username: string): Observable<Profile> {
-    return this.http.get<{ profile: Profile }>("/profiles/" + username).pipe(
-      map((data: { profile: Profile }) => data.profile),
-      shareReplay(1),
+    // The profile page and its article tabs ask for it at the same time
+    return this.inFlight.share("/profiles/" + username, () =>
+      this.http.get<{ profile: Profile }>("/profiles/" + username).pipe(
+        map((data: { profile: Profile }) => data.profile),
+        tap((profile) => this.store.upsertProfiles([profile])),
+      ),
     );
   }
 
+  // The caller stores the result: a newer click may have replaced it
   follow(username: string): Observable<Profile> {
     return this.http
-      .post<{ profile: Profile }>("/profiles/" + username + "/follow", {})
-      .pipe(map((data: { profile: Profile }) => data.profile));
+      .post<{ profile: Profile }>(
+        "/profiles/" + username + "/follow",
+        {},
+        {
+          context: new HttpContext().set(
+            QUEUE_WHEN_OFFLINE,
+            "follow " + username,
+          ),
+        },
+      )
+      .pipe(
+        map((data: { profile: Profile }) => data.profile),
+        tap(() => this.invalidate(username)),
+      );
   }
 
   unfollow(username: string): Observable<Profile> {
     return this.http
-      .delete<{ profile: Profile }>("/profiles/" + username + "/follow")
-      .pipe(map((data: { profile: Profile }) => data.profile));
+      .delete<{ profile: Profile }>("/profiles/" + username + "/follow", {
+        context: new HttpContext().set(
+          QUEUE_WHEN_OFFLINE,
+          "unfollow " + username,
+        ),
+      })
+      .pipe(
+        map((data: { profile: Profile }) => data.profile),
+        tap(() => this.invalidate(username)),
+      );
+  }
+
+  // Articles embed their author's profile, including "following"
+  private invalidate(username: string): void {
+    this.cache.invalidate("/profiles/" + username, "/articles");
   }
 }
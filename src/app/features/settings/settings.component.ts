@@ -1,4 +1,11 @@
-import { Component, DestroyRef, inject, OnInit } from "@angular/core";
+import {
+  ChangeDetectionStrategy,
+  Component,
+  DestroyRef,
+  inject,
+  OnInit,
+  signal,
+} from "@angular/core";
 import {
   FormControl,
   FormGroup,
@@ -6,7 +13,6 @@ import {
   Validators,
 } from "@angular/forms";
 import { Router } from "@angular/router";
-import { User } from "../../core/auth/user.model";
 import { UserService } from "../../core/auth/services/user.service";
 import { ListErrorsComponent } from "../../shared/components/list-errors.component";
 import { Errors } from "../../core/models/errors.model";
@@ -23,10 +29,10 @@ interface SettingsForm {
 @Component({
   selector: "app-settings-page",
   templateUrl: "./settings.component.html",
+  changeDetection: ChangeDetectionStrategy.OnPush,
   imports: [ListErrorsComponent, ReactiveFormsModule],
 })
 export default class SettingsComponent implements OnInit {
-  user!: User;
   settingsForm = new FormGroup<SettingsForm>({
     image: new FormControl("", { nonNullable: true }),
     username: new FormControl("", { nonNullable: true }),
@@ -37,8 +43,8 @@ export default class SettingsComponent implements OnInit {
       nonNullable: true,
     }),
   });
-  errors: Errors | null = null;
-  isSubmitting = false;
+  errors = signal<Errors | null>(null);
+  isSubmitting = signal(false);
   destroyRef = inject(DestroyRef);
 
   constructor(
@@ -47,9 +53,10 @@ export default class SettingsComponent implements OnInit {
   ) {}
 
   ngOnInit(): void {
-    this.settingsForm.patchValue(
-      this.userService.getCurrentUser() as Partial<User>,
-    );
+    const user = this.userService.currentUser();
+    if (user) {
+      this.settingsForm.patchValue(user);
+    }
   }
 
   logout(): void {
@@ -57,7 +64,7 @@ export default class SettingsComponent implements OnInit {
   }
 
   submitForm() {
-    this.isSubmitting = true;
+    this.isSubmitting.set(true);
 
     this.userService
       .update(this.settingsForm.value)
@@ -66,8 +73,8 @@ export default class SettingsComponent implements OnInit {
         next: ({ user }) =>
           void this.router.navigate(["/profile/", user.username]),
         error: (err) => {
-          this.errors = err;
-          this.isSubmitting = false;
+          this.errors.set(err);
+          this.isSubmitting.set(false);
         },
       });
   }
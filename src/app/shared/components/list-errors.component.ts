@@ -1,18 +1,32 @@
-import { Component, Input } from "@angular/core";
+import {
+  ChangeDetectionStrategy,
+  Component,
+  computed,
+  input,
+} from "@angular/core";
 import { Errors } from "../../core/models/errors.model";
+import { isAppError } from "../../core/models/app-error.model";
 
 @Component({
   selector: "app-list-errors",
   templateUrl: "./list-errors.component.html",
+  changeDetection: ChangeDetectionStrategy.OnPush,
 })
 export class ListErrorsComponent {
-  errorList: string[] = [];
+  errors = input<Errors | null>(null);
 
-  @Input() set errors(errorList: Errors | null) {
-    this.errorList = errorList
-      ? Object.keys(errorList.errors || {}).map(
-          (key) => `${key} ${errorList.errors[key]}`,
+  errorList = computed(() => {
+    const errors = this.errors();
+    const errorList = errors
+      ? Object.keys(errors.errors || {}).map(
+          (key) => `${key} ${errors.errors[key]}`,
         )
       : [];
-  }
+
+    // Failures without field errors (network, server...) still say something
+    if (!errorList.length && isAppError(errors)) {
+      return [errors.message];
+    }
+    return errorList;
+  });
 }
@@ -0,0 +1,47 @@
+import {
+  ChangeDetectionStrategy,
+  Component,
+  computed,
+  input,
+  output,
+} from "@angular/core";
+import { isAppError } from "../../core/models/app-error.model";
+
+// Shown in place of content that failed to load, with a way to try again
+@Component({
+  selector: "app-load-error",
+  template: `
+    <div class="load-error" role="alert">
+      <span>Could not load {{ what() }}. {{ message() }}</span>
+      <button
+        class="btn btn-sm btn-outline-secondary"
+        type="button"
+        (click)="retry.emit()"
+      >
+        <i class="ion-refresh"></i> Retry
+      </button>
+    </div>
+  `,
+  styles: `
+    .load-error {
+      display: flex;
+      flex-wrap: wrap;
+      align-items: center;
+      gap: 0.5rem;
+      padding: 1.5rem 0;
+      color: #b85c5c;
+    }
+  `,
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class LoadErrorComponent {
+  // What failed to load, e.g. "articles"
+  what = input("this content");
+  error = input<unknown>();
+  retry = output<void>();
+
+  message = computed(() => {
+    const error = this.error();
+    return isAppError(error) ? error.message : "";
+  });
+}
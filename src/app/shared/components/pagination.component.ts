@@ -0,0 +1,101 @@
+import {
+  ChangeDetectionStrategy,
+  Component,
+  computed,
+  input,
+  output,
+} from "@angular/core";
+import { NgClass } from "@angular/common";
+
+// Pages shown on each side of the current one
+const PAGE_WINDOW = 2;
+
+@Component({
+  selector: "app-pagination",
+  template: `
+    @if (totalPages() > 1) {
+      <nav>
+        <ul class="pagination">
+          <li class="page-item" [ngClass]="{ disabled: currentPage() === 1 }">
+            <button
+              class="page-link"
+              aria-label="First page"
+              [disabled]="currentPage() === 1"
+              (click)="pageChange.emit(1)"
+            >
+              &laquo;
+            </button>
+          </li>
+          <li class="page-item" [ngClass]="{ disabled: currentPage() === 1 }">
+            <button
+              class="page-link"
+              aria-label="Previous page"
+              [disabled]="currentPage() === 1"
+              (click)="pageChange.emit(currentPage() - 1)"
+            >
+              &lsaquo;
+            </button>
+          </li>
+          @for (pageNumber of pageWindow(); track pageNumber) {
+            <li
+              class="page-item"
+              [ngClass]="{ active: pageNumber === currentPage() }"
+            >
+              <button class="page-link" (click)="pageChange.emit(pageNumber)">
+                {{ pageNumber }}
+              </button>
+            </li>
+          }
+          <li
+            class="page-item"
+            [ngClass]="{ disabled: currentPage() === totalPages() }"
+          >
+            <button
+              class="page-link"
+              aria-label="Next page"
+              [disabled]="currentPage() === totalPages()"
+              (click)="pageChange.emit(currentPage() + 1)"
+            >
+              &rsaquo;
+            </button>
+          </li>
+          <li
+            class="page-item"
+            [ngClass]="{ disabled: currentPage() === totalPages() }"
+          >
+            <button
+              class="page-link"
+              aria-label="Last page"
+              [disabled]="currentPage() === totalPages()"
+              (click)="pageChange.emit(totalPages())"
+            >
+              &raquo;
+            </button>
+          </li>
+        </ul>
+      </nav>
+    }
+  `,
+  imports: [NgClass],
+  styles: `
+    .page-link {
+      cursor: pointer;
+    }
+  `,
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class PaginationComponent {
+  currentPage = input(1);
+  totalPages = input(0);
+  pageChange = output<number>();
+
+  // First, previous, a few pages around the current one, next, last
+  pageWindow = computed(() => {
+    const first = Math.max(1, this.currentPage() - PAGE_WINDOW);
+    const last = Math.min(this.totalPages(), this.currentPage() + PAGE_WINDOW);
+    return Array.from(
+      { length: Math.max(0, last - first + 1) },
+      (_, index) => first + index,
+    );
+  });
+}
@@ -0,0 +1,101 @@
+import {
+  ChangeDetectionStrategy,
+  Component,
+  computed,
+  input,
+} from "@angular/core";
+
+export type SkeletonVariant = "article" | "comment" | "tags";
+
+// Grey placeholders shaped like the content that is loading
+@Component({
+  selector: "app-skeleton",
+  template: `
+    @for (item of items(); track $index) {
+      @switch (variant()) {
+        @case ("article") {
+          <div class="article-preview">
+            <div class="skeleton-meta">
+              <span class="skeleton skeleton-avatar"></span>
+              <span class="skeleton skeleton-line" style="width: 8rem"></span>
+            </div>
+            <span class="skeleton skeleton-title"></span>
+            <span class="skeleton skeleton-line"></span>
+            <span class="skeleton skeleton-line" style="width: 60%"></span>
+          </div>
+        }
+        @case ("comment") {
+          <div class="card">
+            <div class="card-block">
+              <span class="skeleton skeleton-line"></span>
+              <span class="skeleton skeleton-line" style="width: 70%"></span>
+            </div>
+            <div class="card-footer">
+              <span class="skeleton skeleton-line" style="width: 6rem"></span>
+            </div>
+          </div>
+        }
+        @case ("tags") {
+          <span class="skeleton skeleton-pill"></span>
+        }
+      }
+    }
+  `,
+  styles: `
+    :host {
+      display: block;
+    }
+    .skeleton {
+      display: block;
+      border-radius: 4px;
+      background: linear-gradient(90deg, #eee 25%, #f5f5f5 50%, #eee 75%);
+      background-size: 200% 100%;
+      animation: skeleton-shimmer 1.5s infinite;
+    }
+    .skeleton-line {
+      height: 0.8rem;
+      margin: 0.5rem 0;
+    }
+    .skeleton-title {
+      height: 1.4rem;
+      width: 50%;
+      margin: 0.75rem 0;
+    }
+    .skeleton-meta {
+      display: flex;
+      align-items: center;
+      gap: 0.5rem;
+    }
+    .skeleton-avatar {
+      width: 32px;
+      height: 32px;
+      border-radius: 50%;
+    }
+    .skeleton-pill {
+      display: inline-block;
+      width: 4rem;
+      height: 1.2rem;
+      margin: 0 0.2rem 0.2rem 0;
+      border-radius: 10rem;
+    }
+    @keyframes skeleton-shimmer {
+      from {
+        background-position: 200% 0;
+      }
+      to {
+        background-position: -200% 0;
+      }
+    }
+    @media (prefers-reduced-motion: reduce) {
+      .skeleton {
+        animation: none;
+      }
+    }
+  `,
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class SkeletonComponent {
+  variant = input<SkeletonVariant>("article");
+  count = input(1);
+  items = computed(() => Array.from({ length: this.count() }));
+}
@@ -0,0 +1,42 @@
+import {
+  Directive,
+  ElementRef,
+  input,
+  OnDestroy,
+  OnInit,
+  output,
+} from "@angular/core";
+
+// Emits each time the host element scrolls into view
+@Directive({
+  selector: "[inViewport]",
+})
+export class InViewportDirective implements OnInit, OnDestroy {
+  // Grows the viewport, e.g. "200px" fires before the element is visible
+  inViewportMargin = input("0px");
+  inViewport = output<void>();
+
+  private observer: IntersectionObserver | null = null;
+
+  constructor(private readonly element: ElementRef<HTMLElement>) {}
+
+  ngOnInit(): void {
+    if (typeof IntersectionObserver === "undefined") {
+      return;
+    }
+
+    this.observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          this.inViewport.emit();
+        }
+      },
+      { rootMargin: this.inViewportMargin() },
+    );
+    this.observer.observe(this.element.nativeElement);
+  }
+
+  ngOnDestroy(): void {
+    this.observer?.disconnect();
+  }
+}
@@ -1,17 +1,14 @@
-import { inject, Pipe, PipeTransform, SecurityContext } from "@angular/core";
-import { DomSanitizer } from "@angular/platform-browser";
+import { inject, Pipe, PipeTransform } from "@angular/core";
+import { SafeHtml } from "@angular/platform-browser";
+import { MarkdownService } from "../services/markdown.service";
 
 @Pipe({
   name: "markdown",
   standalone: true,
 })
 export class MarkdownPipe implements PipeTransform {
-  domSanitizer = inject(DomSanitizer);
-  async transform(content: string): Promise<string> {
-    const { marked } = await import("marked");
-    return (
-      this.domSanitizer.sanitize(SecurityContext.HTML, marked.parse(content)) ||
-      ""
-    );
+  markdownService = inject(MarkdownService);
+  async transform(content: string): Promise<SafeHtml> {
+    return (await this.markdownService.render(content)).html;
   }
 }
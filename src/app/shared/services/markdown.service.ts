@@ -0,0 +1,84 @@
+import { inject, Injectable, SecurityContext } from "@angular/core";
+import { DomSanitizer, SafeHtml } from "@angular/platform-browser";
+import type { Marked } from "marked";
+
+export interface TocEntry {
+  id: string;
+  text: string;
+  level: number;
+}
+
+export interface RenderedMarkdown {
+  html: SafeHtml;
+  toc: TocEntry[];
+}
+
+@Injectable({ providedIn: "root" })
+export class MarkdownService {
+  domSanitizer = inject(DomSanitizer);
+  private parser: Promise<Marked> | null = null;
+
+  async render(content: string): Promise<RenderedMarkdown> {
+    const parser = await this.loadParser();
+    const sanitized =
+      this.domSanitizer.sanitize(
+        SecurityContext.HTML,
+        parser.parse(content ?? "", { async: false }) as string,
+      ) || "";
+
+    // The sanitizer strips id attributes, so anchors are added afterwards.
+    // They are derived from the heading text and contain only [\w-].
+    const template = document.createElement("template");
+    template.innerHTML = sanitized;
+    const toc = addHeadingAnchors(template.content);
+
+    return {
+      html: this.domSanitizer.bypassSecurityTrustHtml(template.innerHTML),
+      toc,
+    };
+  }
+
+  // The markdown and highlighting libraries are only loaded when needed
+  private loadParser(): Promise<Marked> {
+    this.parser ??= Promise.all([
+      import("marked"),
+      import("marked-highlight"),
+      import("highlight.js/lib/common"),
+    ]).then(
+      ([{ Marked }, { markedHighlight }, { default: hljs }]) =>
+        new Marked(
+          markedHighlight({
+            langPrefix: "hljs language-",
+            highlight: (code, lang) =>
+              hljs.highlight(code, {
+                language: hljs.getLanguage(lang) ? lang : "plaintext",
+              }).value,
+          }),
+        ),
+    );
+    return this.parser;
+  }
+}
+
+function addHeadingAnchors(root: DocumentFragment): TocEntry[] {
+  const used = new Map<string, number>();
+
+  return Array.from(
+    root.querySelectorAll<HTMLHeadingElement>("h1, h2, h3, h4, h5, h6"),
+  ).map((heading) => {
+    const text = heading.textContent?.trim() ?? "";
+    const slug =
+      text
+        .toLowerCase()
+        .replace(/[^\w\s-]/g, "")
+        .trim()
+        .replace(/[\s_]+/g, "-") || "section";
+
+    // Repeated headings get -1, -2... like GitHub does
+    const count = used.get(slug) ?? 0;
+    used.set(slug, count + 1);
+    heading.id = count ? `${slug}-${count}` : slug;
+
+    return { id: heading.id, text, level: Number(heading.tagName[1]) };
+  });
+}
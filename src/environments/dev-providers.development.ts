@@ -0,0 +1,7 @@
+import { EnvironmentProviders } from "@angular/core";
+import { provideChangeDetectionBenchmark } from "../app/core/perf/change-detection-benchmark";
+
+// Replaces dev-providers.ts in development builds, see angular.json
+export const devProviders: EnvironmentProviders[] = [
+  provideChangeDetectionBenchmark(),
+];
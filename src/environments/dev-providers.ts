@@ -0,0 +1,5 @@
+import { EnvironmentProviders } from "@angular/core";
+
+// Providers for development builds only. This file is used as is in
+// production builds; dev-providers.development.ts replaces it otherwise.
+export const devProviders: EnvironmentProviders[] = [];